@@ -86,7 +86,7 @@ function App() {
             📊 Data Mining Dashboard
           </h1>
           <p className="text-lg text-gray-600">
-            Upload Excel files and discover patterns with Apriori & FP-Growth algorithms
+            Upload Excel files and discover patterns with Apriori, FP-Growth & Eclat algorithms
           </p>
         </div>
 
@@ -157,7 +157,7 @@ function App() {
                   🚀 Run Data Mining Analysis
                 </CardTitle>
                 <CardDescription>
-                  Configure and execute Apriori or FP-Growth algorithms on your processed data
+                  Configure and execute Apriori, FP-Growth or Eclat algorithms on your processed data
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -221,7 +221,12 @@ function App() {
                               Created: {analysis.created_at.toLocaleDateString()}
                             </p>
                           </div>
-                          <Badge>{analysis.status}</Badge>
+                          <div className="flex gap-2">
+                            {analysis.is_stale && (
+                              <Badge variant="secondary" className="bg-orange-100 text-orange-800">stale</Badge>
+                            )}
+                            <Badge>{analysis.status}</Badge>
+                          </div>
                         </div>
                       </div>
                     ))}
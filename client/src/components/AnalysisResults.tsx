@@ -110,18 +110,51 @@ export function AnalysisResults({
                     <span>
                       🎯 Confidence: {(result.min_confidence * 100).toFixed(1)}%
                     </span>
+                    {result.top_k && (
+                      <span>
+                        🏆 Top {result.top_k.k} by {result.top_k.rank_by}
+                        {result.effective_min_support !== null &&
+                          ` at ${(result.effective_min_support * 100).toFixed(1)}% support`}
+                      </span>
+                    )}
+                    {result.max_itemset_length !== null && (
+                      <span>📏 Max length {result.max_itemset_length}</span>
+                    )}
+                    {result.item_constraints && (
+                      <span>🎛️ Item constraints</span>
+                    )}
+                    {result.rule_pruning && (
+                      <span>✂️ Pruned rules</span>
+                    )}
+                    {result.output_mode === 'closed' && (
+                      <span>🔒 Closed itemsets</span>
+                    )}
+                    {result.output_mode === 'maximal' && (
+                      <span>🧱 Maximal itemsets</span>
+                    )}
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
                     Created: {result.created_at.toLocaleDateString()} at{' '}
                     {result.created_at.toLocaleTimeString()}
                   </p>
                 </div>
-                <Badge 
-                  className={statusColors[result.status]}
-                  variant="secondary"
-                >
-                  {statusEmojis[result.status]} {result.status}
-                </Badge>
+                <div className="flex flex-col items-end gap-1">
+                  <Badge 
+                    className={statusColors[result.status]}
+                    variant="secondary"
+                  >
+                    {statusEmojis[result.status]} {result.status}
+                  </Badge>
+                  {result.is_stale && (
+                    <Badge
+                      className="bg-orange-100 text-orange-800"
+                      variant="secondary"
+                      title="The file was reprocessed after this analysis ran"
+                    >
+                      ⚠️ stale
+                    </Badge>
+                  )}
+                </div>
               </div>
             </CardHeader>
             
@@ -3,12 +3,29 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Slider } from '@/components/ui/slider';
 import { trpc } from '@/utils/trpc';
-import type { FileUpload, AnalysisResult, CreateAnalysisInput } from '../../../server/src/schema';
+import { parseItemList } from '@/utils/items';
+import { DatasetStatsPanel } from './DatasetStatsPanel';
+import type {
+  FileUpload,
+  AnalysisResult,
+  Algorithm,
+  CreateAnalysisInput,
+  OutputMode,
+  TopK
+} from '../../../server/src/schema';
+
+// Empty or invalid limits mean no limit
+function parseLimit(text: string): number | undefined {
+  const limit = parseInt(text);
+  return limit >= 1 ? limit : undefined;
+}
 
 interface AnalysisRunnerProps {
   fileUploads: FileUpload[];
@@ -17,9 +34,23 @@ interface AnalysisRunnerProps {
 
 export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRunnerProps) {
   const [selectedFileId, setSelectedFileId] = useState<number | null>(null);
-  const [algorithm, setAlgorithm] = useState<'apriori' | 'fp-growth'>('apriori');
+  const [algorithm, setAlgorithm] = useState<Algorithm>('apriori');
   const [minSupport, setMinSupport] = useState<number[]>([0.1]);
   const [minConfidence, setMinConfidence] = useState<number[]>([0.5]);
+  const [outputMode, setOutputMode] = useState<OutputMode>('all');
+  // 'threshold' mines at the minimum support; 'top-k' searches for k results
+  const [selection, setSelection] = useState<'threshold' | 'top-k'>('threshold');
+  const [topKCount, setTopKCount] = useState(20);
+  const [rankBy, setRankBy] = useState<TopK['rank_by']>('support');
+  const [pruneRedundant, setPruneRedundant] = useState(false);
+  const [pruneNonProductive, setPruneNonProductive] = useState(false);
+  const [mustInclude, setMustInclude] = useState('');
+  const [excludedItems, setExcludedItems] = useState('');
+  const [antecedentItems, setAntecedentItems] = useState('');
+  const [consequentItems, setConsequentItems] = useState('');
+  const [maxItemsetLength, setMaxItemsetLength] = useState('');
+  const [maxAntecedentSize, setMaxAntecedentSize] = useState('');
+  const [maxConsequentSize, setMaxConsequentSize] = useState('');
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -35,16 +66,29 @@ export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRun
     setSuccess(null);
 
     try {
+      const itemConstraints = {
+        must_include: parseItemList(mustInclude),
+        exclude: parseItemList(excludedItems),
+        antecedent_items: parseItemList(antecedentItems),
+        consequent_items: parseItemList(consequentItems)
+      };
       const analysisInput: CreateAnalysisInput = {
         file_upload_id: selectedFileId,
         algorithm,
         min_support: minSupport[0],
-        min_confidence: minConfidence[0]
+        min_confidence: minConfidence[0],
+        output_mode: outputMode,
+        top_k: selection === 'top-k' ? { k: topKCount, rank_by: rankBy } : undefined,
+        rule_pruning: pruneRedundant || pruneNonProductive
+          ? { redundant: pruneRedundant, non_productive: pruneNonProductive }
+          : undefined,
+        item_constraints: Object.values(itemConstraints).some(items => items !== undefined) ? itemConstraints : undefined,
+        max_itemset_length: parseLimit(maxItemsetLength),
+        max_antecedent_size: parseLimit(maxAntecedentSize),
+        max_consequent_size: parseLimit(maxConsequentSize)
       };
 
-      const result = algorithm === 'apriori' 
-        ? await trpc.runAprioriAnalysis.mutate(analysisInput)
-        : await trpc.runFpGrowthAnalysis.mutate(analysisInput);
+      const result = await trpc.runAnalysis.mutate(analysisInput);
 
       setSuccess(`${algorithm.toUpperCase()} analysis completed successfully!`);
       onAnalysisCompleted(result);
@@ -53,6 +97,7 @@ export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRun
       setSelectedFileId(null);
       setMinSupport([0.1]);
       setMinConfidence([0.5]);
+      setOutputMode('all');
 
     } catch (err) {
       console.error('Analysis failed:', err);
@@ -104,10 +149,14 @@ export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRun
         </Select>
       </div>
 
+      {selectedFileId && (
+        <DatasetStatsPanel fileUploadId={selectedFileId} minSupport={minSupport[0]} />
+      )}
+
       {/* Algorithm Selection */}
       <div className="space-y-2">
         <Label className="text-sm font-medium">Mining Algorithm</Label>
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
           <Card 
             className={`p-4 cursor-pointer transition-all ${
               algorithm === 'apriori' 
@@ -138,14 +187,75 @@ export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRun
               </p>
             </div>
           </Card>
+          <Card 
+            className={`p-4 cursor-pointer transition-all ${
+              algorithm === 'eclat' 
+                ? 'ring-2 ring-blue-500 bg-blue-50' 
+                : 'hover:bg-gray-50'
+            }`}
+            onClick={() => setAlgorithm('eclat')}
+          >
+            <div className="text-center">
+              <h3 className="font-semibold">⚡ Eclat</h3>
+              <p className="text-xs text-gray-600 mt-1">
+                Vertical TID-set intersections
+              </p>
+            </div>
+          </Card>
         </div>
       </div>
 
+      {/* Result Selection */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Selection</Label>
+          <Select value={selection} onValueChange={(value: string) => setSelection(value as 'threshold' | 'top-k')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="threshold">Minimum support threshold</SelectItem>
+              <SelectItem value="top-k">Top-k results</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {selection === 'top-k' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="top-k" className="text-sm font-medium">Number of results (k)</Label>
+              <Input
+                id="top-k"
+                type="number"
+                min={1}
+                max={10000}
+                value={topKCount}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setTopKCount(Math.max(1, parseInt(e.target.value) || 1))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Rank by</Label>
+              <Select value={rankBy} onValueChange={(value: string) => setRankBy(value as TopK['rank_by'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="support">Most frequent itemsets</SelectItem>
+                  <SelectItem value="confidence">Rules by confidence</SelectItem>
+                  <SelectItem value="lift">Rules by lift</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+
       {/* Parameters */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="space-y-3">
           <Label className="text-sm font-medium">
-            Minimum Support: {(minSupport[0] * 100).toFixed(1)}%
+            {selection === 'top-k' ? 'Lowest Support Searched' : 'Minimum Support'}: {(minSupport[0] * 100).toFixed(1)}%
           </Label>
           <Slider
             value={minSupport}
@@ -156,7 +266,9 @@ export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRun
             className="w-full"
           />
           <p className="text-xs text-gray-500">
-            Minimum frequency threshold for itemsets
+            {selection === 'top-k'
+              ? 'The threshold is raised automatically; it never drops below this value'
+              : 'Minimum frequency threshold for itemsets'}
           </p>
         </div>
 
@@ -178,6 +290,139 @@ export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRun
         </div>
       </div>
 
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Stored Itemsets</Label>
+        <Select value={outputMode} onValueChange={(value: string) => setOutputMode(value as OutputMode)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All frequent itemsets</SelectItem>
+            <SelectItem value="closed">Closed itemsets only</SelectItem>
+            <SelectItem value="maximal">Maximal itemsets only</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500">
+          Closed itemsets have no superset with the same support, so they summarize the full result with far fewer
+          itemsets and rules; maximal itemsets have no frequent superset at all, leaving the largest groups.
+          Both only store fewer rows: every frequent itemset is still mined, so a run takes as long and as much
+          memory as with all itemsets. On dense data, raise the minimum support or limit the itemset length instead.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Rule Pruning</Label>
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="prune-redundant"
+              checked={pruneRedundant}
+              onCheckedChange={(checked: boolean | 'indeterminate') => setPruneRedundant(checked === true)}
+            />
+            <Label htmlFor="prune-redundant" className="text-xs">Drop redundant rules</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="prune-non-productive"
+              checked={pruneNonProductive}
+              onCheckedChange={(checked: boolean | 'indeterminate') => setPruneNonProductive(checked === true)}
+            />
+            <Label htmlFor="prune-non-productive" className="text-xs">Drop non-productive rules</Label>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Redundant rules have a more general rule at least as confident; non-productive ones do no better than a
+          rule with fewer antecedent items
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Item Constraints</Label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="must-include" className="text-xs">Must include all of</Label>
+            <Input
+              id="must-include"
+              value={mustInclude}
+              placeholder="e.g. milk"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMustInclude(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exclude-items" className="text-xs">Exclude</Label>
+            <Input
+              id="exclude-items"
+              value={excludedItems}
+              placeholder="e.g. bag, receipt"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExcludedItems(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="antecedent-items" className="text-xs">Antecedents only from</Label>
+            <Input
+              id="antecedent-items"
+              value={antecedentItems}
+              placeholder="Any item"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAntecedentItems(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="consequent-items" className="text-xs">Consequents only from</Label>
+            <Input
+              id="consequent-items"
+              value={consequentItems}
+              placeholder="Any item"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConsequentItems(e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Comma separated item names, matched after normalization; constraints are applied while mining
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Size Limits</Label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="max-itemset-length" className="text-xs">Max itemset length</Label>
+            <Input
+              id="max-itemset-length"
+              type="number"
+              min={1}
+              value={maxItemsetLength}
+              placeholder="No limit"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxItemsetLength(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="max-antecedent-size" className="text-xs">Max antecedent items</Label>
+            <Input
+              id="max-antecedent-size"
+              type="number"
+              min={1}
+              value={maxAntecedentSize}
+              placeholder="No limit"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxAntecedentSize(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="max-consequent-size" className="text-xs">Max consequent items</Label>
+            <Input
+              id="max-consequent-size"
+              type="number"
+              min={1}
+              value={maxConsequentSize}
+              placeholder="No limit"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxConsequentSize(e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Limits keep long baskets tractable: itemsets stop growing at the maximum length
+        </p>
+      </div>
+
       {/* Run Analysis Button */}
       <div className="flex justify-center">
         <Button 
@@ -222,6 +467,7 @@ export function AnalysisRunner({ fileUploads, onAnalysisCompleted }: AnalysisRun
         <div className="space-y-1">
           <p><strong>Apriori:</strong> Uses candidate generation and pruning. Good for small to medium datasets.</p>
           <p><strong>FP-Growth:</strong> Uses tree structure without candidate generation. More efficient for large datasets.</p>
+          <p><strong>Eclat:</strong> Intersects per-item transaction lists depth-first. Fastest on dense datasets with short baskets.</p>
         </div>
       </div>
     </div>
@@ -1,14 +1,49 @@
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import type { AssociationRule } from '../../../server/src/schema';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RuleTransactionsDialog } from './RuleTransactionsDialog';
+import type { AssociationRule, RuleMeasures } from '../../../server/src/schema';
 
 interface AssociationRulesNetworkProps {
   rules: AssociationRule[];
 }
 
+type RuleSortKey = 'support' | 'confidence' | 'lift' | keyof RuleMeasures;
+
+const sortLabels: Record<RuleSortKey, string> = {
+  lift: 'Lift',
+  confidence: 'Confidence',
+  support: 'Support',
+  leverage: 'Leverage',
+  conviction: 'Conviction',
+  zhang: "Zhang's metric",
+  jaccard: 'Jaccard',
+  cosine: 'Cosine',
+  kulczynski: 'Kulczynski',
+  imbalance_ratio: 'Imbalance ratio',
+  all_confidence: 'All-confidence'
+};
+
+// Null conviction means the rule always holds, so it ranks first; rules
+// stored without measures rank last
+function sortValue(rule: AssociationRule, key: RuleSortKey): number {
+  if (key === 'support' || key === 'confidence' || key === 'lift') {
+    return rule[key];
+  }
+  if (!rule.measures) {
+    return -Infinity;
+  }
+  return rule.measures[key] ?? Infinity;
+}
+
+function formatMeasure(value: number | null): string {
+  return value === null ? '∞' : value.toFixed(3);
+}
+
 interface ProcessedRule extends AssociationRule {
   antecedentText: string;
   consequentText: string;
@@ -18,9 +53,17 @@ interface ProcessedRule extends AssociationRule {
 }
 
 export function AssociationRulesNetwork({ rules }: AssociationRulesNetworkProps) {
+  const [selectedRule, setSelectedRule] = useState<AssociationRule | null>(null);
+  const [sortKey, setSortKey] = useState<RuleSortKey>('lift');
+
   const processedRules = useMemo(() => {
-    return rules
-      .sort((a, b) => b.lift - a.lift) // Sort by lift descending
+    return [...rules]
+      .sort((a, b) => {
+        // Compared rather than subtracted, since two infinities give NaN
+        const aValue = sortValue(a, sortKey);
+        const bValue = sortValue(b, sortKey);
+        return aValue === bValue ? 0 : aValue < bValue ? 1 : -1;
+      })
       .slice(0, 15) // Show top 15 rules
       .map((rule): ProcessedRule => ({
         ...rule,
@@ -32,7 +75,7 @@ export function AssociationRulesNetwork({ rules }: AssociationRulesNetworkProps)
                   rule.lift >= 1.5 ? 'text-blue-600' : 
                   rule.lift >= 1 ? 'text-yellow-600' : 'text-red-600'
       }));
-  }, [rules]);
+  }, [rules, sortKey]);
 
   const maxLift = Math.max(...processedRules.map(rule => rule.lift));
 
@@ -50,8 +93,23 @@ export function AssociationRulesNetwork({ rules }: AssociationRulesNetworkProps)
 
   return (
     <div className="space-y-4">
-      <div className="text-sm text-gray-600 mb-4">
-        Showing top {Math.min(15, rules.length)} rules by lift (total: {rules.length})
+      <div className="flex items-center justify-between mb-4">
+        <div className="text-sm text-gray-600">
+          Showing top {Math.min(15, rules.length)} rules by {sortLabels[sortKey].toLowerCase()} (total: {rules.length})
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">Sort by</Label>
+          <Select value={sortKey} onValueChange={(value: string) => setSortKey(value as RuleSortKey)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(sortLabels) as RuleSortKey[]).map(key => (
+                <SelectItem key={key} value={key}>{sortLabels[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Legend */}
@@ -79,7 +137,12 @@ export function AssociationRulesNetwork({ rules }: AssociationRulesNetworkProps)
 
       <div className="space-y-4 max-h-96 overflow-y-auto">
         {processedRules.map((rule) => (
-          <Card key={rule.id} className="hover:shadow-md transition-shadow">
+          <Card
+            key={rule.id}
+            className="hover:shadow-md transition-shadow cursor-pointer"
+            title="Show the transactions behind this rule"
+            onClick={() => setSelectedRule(rule)}
+          >
             <CardContent className="pt-4">
               <div className="space-y-3">
                 {/* Rule visualization */}
@@ -146,6 +209,28 @@ export function AssociationRulesNetwork({ rules }: AssociationRulesNetworkProps)
                   </div>
                 </div>
 
+                {rule.measures && (
+                  <div className="grid grid-cols-4 gap-x-4 gap-y-1 text-xs text-gray-600">
+                    {(Object.keys(rule.measures) as (keyof RuleMeasures)[]).map(key => (
+                      <div
+                        key={key}
+                        className={`flex justify-between ${key === sortKey ? 'font-semibold text-gray-900' : ''}`}
+                      >
+                        <span>{sortLabels[key]}</span>
+                        <span className="font-mono">{formatMeasure(rule.measures![key])}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {rule.significance && (
+                  <div className="text-xs text-gray-600">
+                    χ² = {rule.significance.chi_square.toFixed(2)}, Fisher p = {rule.significance.p_value.toPrecision(3)}
+                    {' '}(Bonferroni {rule.significance.p_bonferroni.toPrecision(3)},
+                    {' '}BH {rule.significance.p_benjamini_hochberg.toPrecision(3)})
+                  </div>
+                )}
+
                 {/* Rule interpretation */}
                 <div className="text-xs text-gray-600 bg-gray-50 p-2 rounded">
                   <span className="font-medium">Interpretation:</span> 
@@ -171,6 +256,8 @@ export function AssociationRulesNetwork({ rules }: AssociationRulesNetworkProps)
           </CardContent>
         </Card>
       )}
+
+      <RuleTransactionsDialog rule={selectedRule} onClose={() => setSelectedRule(null)} />
     </div>
   );
 }
@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { NormalizationSettings } from './NormalizationSettings';
+import type {
+  ColumnMapping,
+  Deduplication,
+  DuplicatePolicy,
+  FileLayout,
+  FilePreview,
+  NormalizationRules,
+  SheetSelection,
+  WorkbookSheet
+} from '../../../server/src/schema';
+
+type ColumnRole = 'id' | 'item' | 'ignore';
+
+const PREVIEW_ROWS_SHOWN = 10;
+
+interface ColumnMappingWizardProps {
+  preview: FilePreview;
+  sheets: WorkbookSheet[];
+  initialSheets?: SheetSelection | null;
+  isProcessing: boolean;
+  cancelLabel?: string;
+  onConfirm: (
+    mapping: ColumnMapping,
+    sheets: SheetSelection,
+    normalization: NormalizationRules,
+    deduplication: Deduplication
+  ) => void;
+  onCancel: () => void;
+}
+
+// Starts from the mapping stored with the file, or a transaction id in the
+// first column followed by items
+function initialRoles(preview: FilePreview): ColumnRole[] {
+  const mapping = preview.column_mapping;
+  return preview.headers.map((_, column) => {
+    if (!mapping) {
+      return column === 0 ? 'id' : 'item';
+    }
+    if (column === mapping.id_column) return 'id';
+    if (mapping.layout === 'long') {
+      return column === mapping.item_column ? 'item' : 'ignore';
+    }
+    if (mapping.ignored_columns?.includes(column)) return 'ignore';
+    if (mapping.item_columns && !mapping.item_columns.includes(column)) return 'ignore';
+    return 'item';
+  });
+}
+
+export function ColumnMappingWizard({
+  preview: initialPreview,
+  sheets,
+  initialSheets = null,
+  isProcessing,
+  cancelLabel = 'Process later',
+  onConfirm,
+  onCancel
+}: ColumnMappingWizardProps) {
+  const [preview, setPreview] = useState<FilePreview>(initialPreview);
+  const [hasHeader, setHasHeader] = useState(preview.column_mapping?.has_header ?? preview.has_header);
+  const [layout, setLayout] = useState<FileLayout>(preview.column_mapping?.layout ?? 'wide');
+  const [roles, setRoles] = useState<ColumnRole[]>(() => initialRoles(preview));
+  const [normalization, setNormalization] = useState<NormalizationRules>(preview.normalization ?? {});
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>(
+    preview.deduplication?.duplicate_transactions ?? 'merge'
+  );
+  const [keepQuantities, setKeepQuantities] = useState(preview.deduplication?.keep_quantities ?? false);
+  // Processing reads the first sheet unless told otherwise
+  const [allSheets, setAllSheets] = useState(initialSheets === 'all');
+  const [selectedSheets, setSelectedSheets] = useState<string[]>(
+    Array.isArray(initialSheets) ? initialSheets : sheets.slice(0, 1).map(sheet => sheet.name)
+  );
+
+  // The preview follows the first sheet that will be read; the mapping is
+  // shared, so its columns are assumed to match across sheets
+  const previewSheet = allSheets ? sheets[0]?.name : selectedSheets[0];
+  useEffect(() => {
+    if (!previewSheet || sheets.length < 2) return;
+    trpc.previewFile.query({ fileUploadId: initialPreview.file_upload_id, sheet: previewSheet })
+      .then((sheetPreview: FilePreview) => {
+        setPreview(sheetPreview);
+        // Columns beyond the previous preview default to items
+        setRoles((prev: ColumnRole[]) => sheetPreview.headers.map((_, column) => prev[column] ?? 'item'));
+      })
+      .catch((error: unknown) => console.error('Failed to preview sheet:', error));
+  }, [previewSheet, sheets.length, initialPreview.file_upload_id]);
+
+  const labels = hasHeader
+    ? preview.headers
+    : preview.headers.map((_, column) => `Column ${column + 1}`);
+  const dataRows = (hasHeader ? preview.rows.slice(1) : preview.rows).slice(0, PREVIEW_ROWS_SHOWN);
+
+  const idColumn = roles.indexOf('id');
+  const itemColumns = roles.flatMap((role, column) => role === 'item' ? [column] : []);
+  const ignoredColumns = roles.flatMap((role, column) => role === 'ignore' ? [column] : []);
+
+  let validationError: string | null = null;
+  if (layout === 'long' && idColumn === -1) {
+    validationError = 'Choose the column holding the transaction ID';
+  } else if (layout === 'long' && itemColumns.length !== 1) {
+    validationError = 'Choose exactly one item column for the one-row-per-item layout';
+  } else if (itemColumns.length === 0) {
+    validationError = 'Choose at least one item column';
+  } else if (!allSheets && selectedSheets.length === 0) {
+    validationError = 'Choose at least one sheet';
+  }
+
+  const handleSheetToggle = (name: string, checked: boolean) => {
+    // Keep workbook order so the preview shows the first sheet read
+    setSelectedSheets((prev: string[]) => sheets
+      .map(sheet => sheet.name)
+      .filter(sheetName => sheetName === name ? checked : prev.includes(sheetName)));
+  };
+
+  const handleRoleChange = (column: number, role: ColumnRole) => {
+    setRoles((prev: ColumnRole[]) => prev.map((current, index) => {
+      if (index === column) return role;
+      // Only one id column, and only one item column for long files
+      if (role === 'id' && current === 'id') return 'ignore';
+      if (role === 'item' && layout === 'long' && current === 'item') return 'ignore';
+      return current;
+    }));
+  };
+
+  const handleLayoutChange = (value: string) => {
+    const nextLayout = value as FileLayout;
+    setLayout(nextLayout);
+    if (nextLayout === 'long') {
+      // Keep the first item column as the single item column
+      const firstItem = roles.indexOf('item');
+      setRoles((prev: ColumnRole[]) => prev.map((role, column) =>
+        role === 'item' && column !== firstItem ? 'ignore' : role
+      ));
+    }
+  };
+
+  const handleConfirm = () => {
+    const id = idColumn === -1 ? null : idColumn;
+    const mapping: ColumnMapping = layout === 'long'
+      ? { layout, has_header: hasHeader, id_column: id, item_column: itemColumns[0] }
+      : { layout, has_header: hasHeader, id_column: id, item_columns: itemColumns, ignored_columns: ignoredColumns };
+    onConfirm(mapping, allSheets ? 'all' : selectedSheets, normalization, {
+      duplicate_transactions: duplicatePolicy,
+      keep_quantities: keepQuantities
+    });
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div>
+        <p className="text-sm font-medium">Map columns</p>
+        <p className="text-xs text-gray-500">
+          Check the preview and tell us which columns hold transaction IDs and items
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Layout</Label>
+          <Select value={layout} onValueChange={handleLayoutChange} disabled={isProcessing}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="wide">One row per transaction</SelectItem>
+              <SelectItem value="long">One row per item</SelectItem>
+              <SelectItem value="binary">Item matrix (0/1)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2 pt-5">
+          <Checkbox
+            id="has-header"
+            checked={hasHeader}
+            onCheckedChange={(checked: boolean | 'indeterminate') => setHasHeader(checked === true)}
+            disabled={isProcessing}
+          />
+          <Label htmlFor="has-header" className="text-xs">First row contains headers</Label>
+        </div>
+      </div>
+
+      {sheets.length > 1 && (
+        <div className="space-y-2">
+          <Label className="text-xs">Sheets</Label>
+          <div className="flex flex-wrap gap-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="all-sheets"
+                checked={allSheets}
+                onCheckedChange={(checked: boolean | 'indeterminate') => setAllSheets(checked === true)}
+                disabled={isProcessing}
+              />
+              <Label htmlFor="all-sheets" className="text-xs">All sheets</Label>
+            </div>
+            {sheets.map((sheet: WorkbookSheet) => (
+              <div key={sheet.name} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`sheet-${sheet.name}`}
+                  checked={allSheets || selectedSheets.includes(sheet.name)}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => handleSheetToggle(sheet.name, checked === true)}
+                  disabled={isProcessing || allSheets}
+                />
+                <Label htmlFor={`sheet-${sheet.name}`} className="text-xs">
+                  {sheet.name} <span className="text-gray-400">({sheet.row_count} rows)</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          {previewSheet && (
+            <p className="text-xs text-gray-500">Previewing sheet "{previewSheet}"</p>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {labels.map((label, column) => (
+                <TableHead key={column} className="min-w-32 align-top py-2">
+                  <div className="space-y-1">
+                    <span className="text-xs font-medium">{label}</span>
+                    <Select
+                      value={roles[column]}
+                      onValueChange={(value: string) => handleRoleChange(column, value as ColumnRole)}
+                      disabled={isProcessing}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="id">Transaction ID</SelectItem>
+                        <SelectItem value="item">{layout === 'binary' ? 'Item flag' : 'Item'}</SelectItem>
+                        <SelectItem value="ignore">Ignore</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dataRows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {labels.map((_, column) => (
+                  <TableCell
+                    key={column}
+                    className={`text-xs ${roles[column] === 'ignore' ? 'text-gray-300' : ''}`}
+                  >
+                    {row[column] ?? ''}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <NormalizationSettings value={normalization} onChange={setNormalization} disabled={isProcessing} />
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Repeated transaction IDs</Label>
+          {/* Rows of the long layout share an ID by design */}
+          <Select
+            value={duplicatePolicy}
+            onValueChange={(value: string) => setDuplicatePolicy(value as DuplicatePolicy)}
+            disabled={isProcessing || layout === 'long'}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">Merge into one transaction</SelectItem>
+              <SelectItem value="keep_first">Keep the first row</SelectItem>
+              <SelectItem value="reject">Stop with an error</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2 pt-5">
+          <Checkbox
+            id="keep-quantities"
+            checked={keepQuantities}
+            onCheckedChange={(checked: boolean | 'indeterminate') => setKeepQuantities(checked === true)}
+            disabled={isProcessing}
+          />
+          <Label htmlFor="keep-quantities" className="text-xs">Keep quantities of repeated items</Label>
+        </div>
+      </div>
+
+      {idColumn === -1 && layout !== 'long' && (
+        <p className="text-xs text-gray-500">No ID column selected: transactions will be numbered by row</p>
+      )}
+      {validationError && (
+        <p className="text-xs text-red-600">{validationError}</p>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onCancel} disabled={isProcessing}>
+          {cancelLabel}
+        </Button>
+        <Button onClick={handleConfirm} disabled={isProcessing || validationError !== null}>
+          {isProcessing ? 'Processing...' : 'Process File'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -6,21 +6,36 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RefreshCw } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
 import { FrequentItemsetsChart } from './FrequentItemsetsChart';
 import { AssociationRulesNetwork } from './AssociationRulesNetwork';
 import { InsightsSummary } from './InsightsSummary';
-import type { DashboardData } from '../../../server/src/schema';
+import type { AssociationRule, DashboardData, PValueCorrection } from '../../../server/src/schema';
 
 interface DashboardVisualizationProps {
   analysisId: number;
 }
 
+// Rules stored before significance testing have no p-value
+function correctedPValue(rule: AssociationRule, correction: PValueCorrection): number | null {
+  if (!rule.significance) return null;
+  if (correction === 'bonferroni') return rule.significance.p_bonferroni;
+  if (correction === 'benjamini_hochberg') return rule.significance.p_benjamini_hochberg;
+  return rule.significance.p_value;
+}
+
 export function DashboardVisualization({ analysisId }: DashboardVisualizationProps) {
   const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [significantOnly, setSignificantOnly] = useState(false);
+  const [correction, setCorrection] = useState<PValueCorrection>('benjamini_hochberg');
+  const [alpha, setAlpha] = useState(0.05);
 
   const loadDashboardData = useCallback(async () => {
     try {
@@ -114,6 +129,11 @@ export function DashboardVisualization({ analysisId }: DashboardVisualizationPro
     );
   }
 
+  const significantRules = dashboardData.association_rules.filter(rule => {
+    const pValue = correctedPValue(rule, correction);
+    return pValue !== null && pValue <= alpha;
+  });
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -216,8 +236,46 @@ export function DashboardVisualization({ analysisId }: DashboardVisualizationPro
                 Network visualization of association rules showing relationships between items
               </CardDescription>
             </CardHeader>
-            <CardContent>
-              <AssociationRulesNetwork rules={dashboardData.association_rules} />
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4 text-xs">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="significant-only"
+                    checked={significantOnly}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => setSignificantOnly(checked === true)}
+                  />
+                  <Label htmlFor="significant-only" className="text-xs">Significant rules only</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="significance-alpha" className="text-xs">α</Label>
+                  <Input
+                    id="significance-alpha"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    className="w-20 h-8"
+                    value={alpha}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAlpha(parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <Select value={correction} onValueChange={(value: string) => setCorrection(value as PValueCorrection)}>
+                  <SelectTrigger className="w-56 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No correction</SelectItem>
+                    <SelectItem value="bonferroni">Bonferroni</SelectItem>
+                    <SelectItem value="benjamini_hochberg">Benjamini–Hochberg</SelectItem>
+                  </SelectContent>
+                </Select>
+                {significantOnly && (
+                  <span className="text-gray-500">
+                    {significantRules.length} of {dashboardData.association_rules.length} rules significant
+                  </span>
+                )}
+              </div>
+              <AssociationRulesNetwork rules={significantOnly ? significantRules : dashboardData.association_rules} />
             </CardContent>
           </Card>
         </TabsContent>
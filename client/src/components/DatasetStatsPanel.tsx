@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { trpc } from '@/utils/trpc';
+import type { DatasetStats } from '../../../server/src/schema';
+
+interface DatasetStatsPanelProps {
+  fileUploadId: number;
+  minSupport: number;
+}
+
+const ITEMS_SHOWN = 8;
+
+export function DatasetStatsPanel({ fileUploadId, minSupport }: DatasetStatsPanelProps) {
+  const [stats, setStats] = useState<DatasetStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStats(null);
+    setError(null);
+    trpc.getDatasetStats.query({ fileUploadId })
+      .then((result: DatasetStats) => setStats(result))
+      .catch((err: unknown) => {
+        console.error('Failed to load dataset statistics:', err);
+        setError('Could not load dataset statistics');
+      });
+  }, [fileUploadId]);
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  if (!stats) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  // Single items are the upper bound for every itemset's support
+  const frequentItems = stats.item_frequencies.filter(frequency => frequency.support >= minSupport).length;
+
+  return (
+    <div className="text-xs bg-gray-50 p-4 rounded-md space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <div>
+          <p className="text-gray-500">Transactions</p>
+          <p className="text-sm font-semibold">{stats.transaction_count}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Distinct items</p>
+          <p className="text-sm font-semibold">{stats.distinct_item_count}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Basket size (avg / median / max)</p>
+          <p className="text-sm font-semibold">
+            {stats.average_basket_size.toFixed(1)} / {stats.median_basket_size} / {stats.max_basket_size}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Density</p>
+          <p className="text-sm font-semibold">{(stats.density * 100).toFixed(1)}%</p>
+        </div>
+      </div>
+
+      <div>
+        <p className="font-medium mb-1">Most frequent items</p>
+        <div className="space-y-1">
+          {stats.item_frequencies.slice(0, ITEMS_SHOWN).map(frequency => (
+            <div key={frequency.item} className="flex items-center gap-2">
+              <span className="w-32 truncate">{frequency.item}</span>
+              <div className="flex-1 bg-gray-200 rounded h-2">
+                <div
+                  className={`h-2 rounded ${frequency.support >= minSupport ? 'bg-blue-500' : 'bg-gray-400'}`}
+                  style={{ width: `${frequency.support * 100}%` }}
+                />
+              </div>
+              <span className="w-12 text-right">{(frequency.support * 100).toFixed(1)}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <p className={frequentItems === 0 ? 'text-red-600' : 'text-gray-600'}>
+        {frequentItems} of {stats.distinct_item_count} items reach {(minSupport * 100).toFixed(1)}% support
+        {frequentItems === 0 && ': lower the minimum support to find any itemsets'}
+      </p>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { RefreshCw } from 'lucide-react';
+import { ReprocessDialog } from './ReprocessDialog';
+import { IngestionReportDialog } from './IngestionReportDialog';
+import { TransactionBrowser } from './TransactionBrowser';
 import type { FileUpload } from '../../../server/src/schema';
 
 interface FileListProps {
@@ -26,6 +31,10 @@ const statusEmojis = {
 };
 
 export function FileList({ files, isLoading, onRefresh }: FileListProps) {
+  const [processingFile, setProcessingFile] = useState<FileUpload | null>(null);
+  const [reportFile, setReportFile] = useState<FileUpload | null>(null);
+  const [browsedFile, setBrowsedFile] = useState<FileUpload | null>(null);
+
   if (isLoading) {
     return (
       <div className="space-y-3">
@@ -91,10 +100,61 @@ export function FileList({ files, isLoading, onRefresh }: FileListProps) {
               >
                 {statusEmojis[file.status]} {file.status}
               </Badge>
+              {file.status === 'completed' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-2 text-xs"
+                  onClick={() => setReportFile(file)}
+                >
+                  Report
+                </Button>
+              )}
+              {file.status === 'completed' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-2 text-xs"
+                  onClick={() => setBrowsedFile(file)}
+                >
+                  Browse
+                </Button>
+              )}
+              {file.status !== 'processing' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-2 text-xs"
+                  onClick={() => setProcessingFile(file)}
+                >
+                  {file.status === 'completed' ? 'Reprocess' : 'Process'}
+                </Button>
+              )}
             </div>
           </div>
         ))}
       </div>
+
+      <ReprocessDialog
+        file={processingFile}
+        onClose={() => setProcessingFile(null)}
+        onProcessed={onRefresh}
+      />
+
+      <IngestionReportDialog
+        file={reportFile}
+        onClose={() => setReportFile(null)}
+      />
+
+      <Dialog open={browsedFile !== null} onOpenChange={(open: boolean) => !open && setBrowsedFile(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Transactions in {browsedFile?.original_name}</DialogTitle>
+            <DialogDescription>Search the stored baskets by ID or by the items they contain</DialogDescription>
+          </DialogHeader>
+          {browsedFile && <TransactionBrowser fileUploadId={browsedFile.id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -5,9 +5,25 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { trpc } from '@/utils/trpc';
-import type { FileUpload as FileUploadType, CreateFileUploadInput } from '../../../server/src/schema';
+import { uploadFileWithProgress } from '@/utils/upload';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import type {
+  ColumnMapping,
+  Deduplication,
+  CsvEncoding,
+  CsvOptions,
+  FilePreview,
+  FileUpload as FileUploadType,
+  NormalizationRules,
+  SheetSelection,
+  WorkbookSheet
+} from '../../../server/src/schema';
+
+const SUPPORTED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv', '.txt'];
+const AUTO_DETECT = 'auto';
 
 interface FileUploadProps {
   onFileUploaded: (file: FileUploadType) => void;
@@ -17,8 +33,17 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [delimiter, setDelimiter] = useState<string>(AUTO_DETECT);
+  const [encoding, setEncoding] = useState<string>(AUTO_DETECT);
+  // Uploaded file waiting for its column mapping
+  const [pendingUpload, setPendingUpload] = useState<FileUploadType | null>(null);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [sheets, setSheets] = useState<WorkbookSheet[]>([]);
+
+  const isDelimitedText = selectedFile !== null && /\.(csv|tsv|txt)$/i.test(selectedFile.name);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -28,8 +53,8 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
       setSuccess(null);
       
       // Validate file type
-      if (!file.name.toLowerCase().endsWith('.xlsx') && !file.name.toLowerCase().endsWith('.xls')) {
-        setError('Please select an Excel file (.xlsx or .xls)');
+      if (!SUPPORTED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+        setError('Please select an Excel or CSV file (.xlsx, .xls, .csv, .tsv or .txt)');
         setSelectedFile(null);
         return;
       }
@@ -51,74 +76,117 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
     setUploadProgress(0);
 
     try {
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev: number) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      // Create file upload record
-      const uploadData: CreateFileUploadInput = {
-        filename: `${Date.now()}_${selectedFile.name}`,
-        original_name: selectedFile.name,
-        file_size: selectedFile.size,
-        mime_type: selectedFile.type || 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        file_path: `/uploads/${Date.now()}_${selectedFile.name}` // This would be actual path in real implementation
-      };
-
-      const uploadedFile = await trpc.uploadFile.mutate(uploadData);
-      
-      clearInterval(progressInterval);
-      setUploadProgress(100);
+      // Dialect overrides only apply to delimited text files
+      const csvOptions: CsvOptions = {};
+      if (isDelimitedText && delimiter !== AUTO_DETECT) csvOptions.delimiter = delimiter;
+      if (isDelimitedText && encoding !== AUTO_DETECT) csvOptions.encoding = encoding as CsvEncoding;
 
-      // Process the Excel file
-      await trpc.processExcelFile.mutate({ fileUploadId: uploadedFile.id });
+      // Send the file bytes; progress reflects bytes actually transmitted
+      const uploadedFile = await uploadFileWithProgress(selectedFile, setUploadProgress, csvOptions);
 
-      setSuccess(`Successfully uploaded and processed: ${selectedFile.name}`);
-      onFileUploaded(uploadedFile);
-      setSelectedFile(null);
-      
-      // Reset form
-      const fileInput = document.getElementById('file-upload') as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
+      // Show the first rows so the user can map columns before processing
+      const [filePreview, workbookSheets] = await Promise.all([
+        trpc.previewFile.query({ fileUploadId: uploadedFile.id }),
+        trpc.getWorkbookSheets.query({ fileUploadId: uploadedFile.id })
+      ]);
+      setPendingUpload(uploadedFile);
+      setSheets(workbookSheets);
+      setPreview(filePreview);
 
     } catch (err) {
       console.error('Upload failed:', err);
-      setError('Failed to upload file. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to upload file. Please try again.');
     } finally {
       setIsUploading(false);
+      setUploadProgress(0);
+    }
+  };
+
+  const resetForm = () => {
+    setSelectedFile(null);
+    setPendingUpload(null);
+    setPreview(null);
+    setSheets([]);
+    const fileInput = document.getElementById('file-upload') as HTMLInputElement;
+    if (fileInput) fileInput.value = '';
+  };
+
+  const handleProcess = async (
+    columnMapping: ColumnMapping,
+    sheetSelection: SheetSelection,
+    normalization: NormalizationRules,
+    deduplication: Deduplication
+  ) => {
+    if (!pendingUpload) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const summary = await trpc.processExcelFile.mutate({
+        fileUploadId: pendingUpload.id,
+        column_mapping: columnMapping,
+        sheets: sheetSelection,
+        normalization,
+        deduplication
+      });
+
+      setSuccess(
+        `Successfully processed ${pendingUpload.original_name}: ${summary.transaction_count} transactions, ` +
+        `${summary.distinct_item_count} distinct items` +
+        (summary.duplicate_transaction_count > 0
+          ? `, ${summary.duplicate_transaction_count} repeated transaction IDs resolved`
+          : '')
+      );
+      onFileUploaded({
+        ...pendingUpload,
+        status: 'completed',
+        column_mapping: columnMapping,
+        sheets: sheetSelection,
+        normalization,
+        deduplication
+      });
+      resetForm();
+
+    } catch (err) {
+      console.error('Processing failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to process file. Please check the column mapping.');
+    } finally {
+      setIsProcessing(false);
       setTimeout(() => {
-        setUploadProgress(0);
         setSuccess(null);
       }, 3000);
     }
   };
 
+  // The file stays uploaded and can be processed later
+  const handleProcessLater = () => {
+    if (pendingUpload) {
+      onFileUploaded(pendingUpload);
+    }
+    resetForm();
+  };
+
   return (
     <div className="space-y-4">
       <div className="space-y-2">
         <Label htmlFor="file-upload" className="text-sm font-medium">
-          Select Excel File
+          Select Excel or CSV File
         </Label>
         <Input
           id="file-upload"
           type="file"
-          accept=".xlsx,.xls"
+          accept={SUPPORTED_EXTENSIONS.join(',')}
           onChange={handleFileSelect}
-          disabled={isUploading}
+          disabled={isUploading || preview !== null}
           className="cursor-pointer"
         />
         <p className="text-xs text-gray-500">
-          Supported formats: .xlsx, .xls (max 10MB)
+          Supported formats: .xlsx, .xls, .csv, .tsv, .txt (max 10MB)
         </p>
       </div>
 
-      {selectedFile && (
+      {selectedFile && !preview && (
         <Card className="p-4 bg-blue-50 border-blue-200">
           <div className="flex items-center justify-between">
             <div>
@@ -132,9 +200,44 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
               disabled={isUploading}
               className="ml-4"
             >
-              {isUploading ? 'Uploading...' : 'Upload & Process'}
+              {isUploading ? 'Uploading...' : 'Upload & Preview'}
             </Button>
           </div>
+
+          {isDelimitedText && (
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Delimiter</Label>
+                <Select value={delimiter} onValueChange={setDelimiter} disabled={isUploading}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_DETECT}>Auto-detect</SelectItem>
+                    <SelectItem value=",">Comma (,)</SelectItem>
+                    <SelectItem value=";">Semicolon (;)</SelectItem>
+                    <SelectItem value={'\t'}>Tab</SelectItem>
+                    <SelectItem value="|">Pipe (|)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Encoding</Label>
+                <Select value={encoding} onValueChange={setEncoding} disabled={isUploading}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_DETECT}>Auto-detect</SelectItem>
+                    <SelectItem value="utf-8">UTF-8</SelectItem>
+                    <SelectItem value="utf-16le">UTF-16 LE</SelectItem>
+                    <SelectItem value="utf-16be">UTF-16 BE</SelectItem>
+                    <SelectItem value="windows-1252">Windows-1252</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
         </Card>
       )}
 
@@ -142,11 +245,23 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
         <div className="space-y-2">
           <Progress value={uploadProgress} className="w-full" />
           <p className="text-xs text-center text-gray-600">
-            Uploading and processing file... {uploadProgress}%
+            {uploadProgress === 100
+              ? 'Upload complete, reading file...'
+              : `Uploading file... ${uploadProgress}%`}
           </p>
         </div>
       )}
 
+      {preview && (
+        <ColumnMappingWizard
+          preview={preview}
+          sheets={sheets}
+          isProcessing={isProcessing}
+          onConfirm={handleProcess}
+          onCancel={handleProcessLater}
+        />
+      )}
+
       {error && (
         <Alert className="border-red-200 bg-red-50">
           <AlertDescription className="text-red-700">
@@ -166,10 +281,12 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
       <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded-md">
         <p className="font-medium mb-1">📋 Expected File Format:</p>
         <ul className="space-y-1">
-          <li>• Excel file with transaction data</li>
-          <li>• Each row should represent a transaction</li>
+          <li>• Excel or CSV file with transaction data</li>
+          <li>• Each row should represent a transaction, or one item of a transaction with the ID repeated</li>
           <li>• Items should be in separate columns or comma-separated</li>
+          <li>• Item matrices use item names as headers and 1/true/yes to mark items</li>
           <li>• First row can contain headers</li>
+          <li>• CSV delimiter and encoding are detected automatically</li>
         </ul>
       </div>
     </div>
@@ -1,7 +1,9 @@
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import type { FrequentItemset } from '../../../server/src/schema';
 
 interface FrequentItemsetsChartProps {
@@ -9,9 +11,27 @@ interface FrequentItemsetsChartProps {
 }
 
 export function FrequentItemsetsChart({ itemsets }: FrequentItemsetsChartProps) {
+  const [maximalOnly, setMaximalOnly] = useState(false);
+
+  // Offer the filter only when it would hide something
+  const hasNonMaximal = itemsets.some(itemset => !itemset.is_maximal);
+  const shownItemsets = useMemo(
+    () => (maximalOnly ? itemsets.filter(itemset => itemset.is_maximal) : itemsets),
+    [itemsets, maximalOnly]
+  );
+
+  // How many shown itemsets there are of each size
+  const sizeCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    shownItemsets.forEach(itemset => {
+      counts.set(itemset.itemset.length, (counts.get(itemset.itemset.length) ?? 0) + 1);
+    });
+    return [...counts.entries()].sort((a, b) => b[0] - a[0]);
+  }, [shownItemsets]);
+
   const chartData = useMemo(() => {
     // Sort itemsets by support (descending) and take top 20
-    return itemsets
+    return [...shownItemsets]
       .sort((a, b) => b.support - a.support)
       .slice(0, 20)
       .map((itemset, index) => ({
@@ -20,7 +40,7 @@ export function FrequentItemsetsChart({ itemsets }: FrequentItemsetsChartProps)
         percentage: (itemset.support * 100).toFixed(1),
         rank: index + 1
       }));
-  }, [itemsets]);
+  }, [shownItemsets]);
 
   const maxSupport = Math.max(...chartData.map(item => item.support));
 
@@ -38,8 +58,29 @@ export function FrequentItemsetsChart({ itemsets }: FrequentItemsetsChartProps)
 
   return (
     <div className="space-y-4">
-      <div className="text-sm text-gray-600 mb-4">
-        Showing top {Math.min(20, itemsets.length)} itemsets (total: {itemsets.length})
+      <div className="flex items-center justify-between mb-4">
+        <div className="text-sm text-gray-600">
+          Showing top {Math.min(20, shownItemsets.length)} {maximalOnly ? 'maximal ' : ''}itemsets
+          (total: {shownItemsets.length})
+        </div>
+        {hasNonMaximal && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="maximal-only"
+              checked={maximalOnly}
+              onCheckedChange={(checked: boolean | 'indeterminate') => setMaximalOnly(checked === true)}
+            />
+            <Label htmlFor="maximal-only" className="text-xs">Maximal only</Label>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+        {sizeCounts.map(([size, count]) => (
+          <Badge key={size} variant="secondary">
+            {size} item{size !== 1 ? 's' : ''}: {count}
+          </Badge>
+        ))}
       </div>
       
       <div className="space-y-3 max-h-96 overflow-y-auto">
@@ -75,7 +116,10 @@ export function FrequentItemsetsChart({ itemsets }: FrequentItemsetsChartProps)
               </div>
               
               <div className="flex justify-between text-xs text-gray-500 mt-1">
-                <span>Frequency: {item.frequency}</span>
+                <span>
+                  Size: {item.itemset.length} · Frequency: {item.frequency}
+                  {item.is_maximal && ' · maximal'}
+                </span>
                 <span>Support: {item.support.toFixed(4)}</span>
               </div>
             </div>
@@ -83,11 +127,11 @@ export function FrequentItemsetsChart({ itemsets }: FrequentItemsetsChartProps)
         ))}
       </div>
 
-      {itemsets.length > 20 && (
+      {shownItemsets.length > 20 && (
         <Card className="bg-blue-50 border-blue-200">
           <CardContent className="pt-4">
             <p className="text-sm text-blue-700 text-center">
-              📈 {itemsets.length - 20} more itemsets available in the full analysis
+              📈 {shownItemsets.length - 20} more itemsets available in the full analysis
             </p>
           </CardContent>
         </Card>
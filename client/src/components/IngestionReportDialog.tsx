@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { FileUpload, IngestionReport } from '../../../server/src/schema';
+
+interface IngestionReportDialogProps {
+  file: FileUpload | null;
+  onClose: () => void;
+}
+
+const skipReasons = {
+  no_id: 'No transaction ID',
+  no_items: 'No items',
+  too_short: 'Too few columns',
+  emptied_by_normalization: 'All items removed by normalization'
+};
+
+function Stat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="p-2 border rounded-md">
+      <p className="text-lg font-semibold">{value}</p>
+      <p className="text-xs text-gray-500">{label}</p>
+    </div>
+  );
+}
+
+export function IngestionReportDialog({ file, onClose }: IngestionReportDialogProps) {
+  const [report, setReport] = useState<IngestionReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+    if (!file) return;
+
+    setIsLoading(true);
+    trpc.getIngestionReport.query({ fileUploadId: file.id })
+      .then((result: IngestionReport | null) => setReport(result))
+      .catch((err: unknown) => {
+        console.error('Failed to load ingestion report:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the report');
+      })
+      .finally(() => setIsLoading(false));
+  }, [file]);
+
+  // Reports saved before a reason existed lack its count
+  const skippedTotal = report
+    ? (Object.keys(skipReasons) as (keyof typeof skipReasons)[])
+      .reduce((total, reason) => total + (report.skipped_rows[reason] ?? 0), 0)
+    : 0;
+  const largestBasketCount = report ? Math.max(1, ...report.basket_sizes.map(bucket => bucket.count)) : 1;
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Data quality: {file?.original_name}</DialogTitle>
+          <DialogDescription>
+            {report
+              ? `From the processing run on ${report.created_at.toLocaleString()}`
+              : 'What happened to the file\'s rows when it was last processed'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">
+              ❌ {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <p className="text-sm text-gray-500 text-center py-4">Loading report...</p>}
+
+        {!isLoading && !error && !report && (
+          <p className="text-sm text-gray-500 text-center py-4">No report yet: process the file first</p>
+        )}
+
+        {report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <Stat label="Rows read" value={report.rows_read} />
+              <Stat label="Rows skipped" value={skippedTotal} />
+              <Stat label="Transactions" value={report.transaction_count} />
+              <Stat label="Distinct items" value={report.distinct_item_count} />
+            </div>
+
+            {skippedTotal > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Skipped rows</p>
+                {(Object.keys(skipReasons) as (keyof typeof skipReasons)[])
+                  .filter(reason => report.skipped_rows[reason] > 0)
+                  .map(reason => (
+                    <p key={reason} className="text-xs text-gray-600">
+                      {skipReasons[reason]}: {report.skipped_rows[reason]}
+                    </p>
+                  ))}
+              </div>
+            )}
+
+            {(report.duplicate_transaction_count > 0 || report.duplicate_item_count > 0) && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Duplicates</p>
+                <p className="text-xs text-gray-600">
+                  Repeated transaction IDs: {report.duplicate_transaction_count}
+                </p>
+                <p className="text-xs text-gray-600">
+                  Repeated items within a transaction: {report.duplicate_item_count}
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Basket sizes</p>
+              {report.basket_sizes.map(bucket => (
+                <div key={bucket.size} className="flex items-center gap-2 text-xs">
+                  <span className="w-16 text-gray-600">{bucket.size} item{bucket.size !== 1 ? 's' : ''}</span>
+                  <div className="flex-1 bg-gray-100 rounded h-3">
+                    <div
+                      className="bg-blue-500 h-3 rounded"
+                      style={{ width: `${(bucket.count / largestBasketCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-12 text-right text-gray-600">{bucket.count}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Top items</p>
+              <div className="flex flex-wrap gap-2">
+                {report.top_items.map(entry => (
+                  <Badge key={entry.item} variant="secondary">
+                    {entry.item} ({entry.count})
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {report.suspicious_values.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Suspicious values</p>
+                <p className="text-xs text-gray-500">
+                  Item cells that look like missing values; consider a rewrite rule to drop them
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {report.suspicious_values.map(entry => (
+                    <Badge key={entry.value} className="bg-yellow-100 text-yellow-800" variant="secondary">
+                      "{entry.value}" × {entry.count}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
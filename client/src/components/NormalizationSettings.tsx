@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { NormalizationRules } from '../../../server/src/schema';
+
+type RewriteRule = NonNullable<NormalizationRules['rewrites']>[number];
+
+const NONE = 'none';
+
+interface NormalizationSettingsProps {
+  value: NormalizationRules;
+  disabled?: boolean;
+  onChange: (rules: NormalizationRules) => void;
+}
+
+// Rewrite rules are written one per line as "pattern => replacement", with
+// "/pattern/flags" for flags
+function formatRewrites(rules: RewriteRule[]): string {
+  return rules
+    .map(rule => `${rule.flags ? `/${rule.pattern}/${rule.flags}` : rule.pattern} => ${rule.replacement}`)
+    .join('\n');
+}
+
+function parseRewrites(text: string): { rules: RewriteRule[]; errors: string[] } {
+  const rules: RewriteRule[] = [];
+  const errors: string[] = [];
+
+  for (const [index, line] of text.split('\n').entries()) {
+    if (!line.trim()) continue;
+    const separator = line.indexOf('=>');
+    if (separator === -1) {
+      errors.push(`Line ${index + 1}: expected "pattern => replacement"`);
+      continue;
+    }
+
+    const source = line.slice(0, separator).trim();
+    const replacement = line.slice(separator + 2).trim();
+    const literal = source.match(/^\/(.+)\/([imsu]*)$/);
+    const pattern = literal ? literal[1] : source;
+    const flags = literal && literal[2] ? literal[2] : undefined;
+
+    try {
+      new RegExp(pattern, flags);
+      rules.push(flags ? { pattern, replacement, flags } : { pattern, replacement });
+    } catch {
+      errors.push(`Line ${index + 1}: invalid regular expression`);
+    }
+  }
+
+  return { rules, errors };
+}
+
+// Synonyms are written one per line as "variant = canonical name"
+function formatSynonyms(synonyms: Record<string, string>): string {
+  return Object.entries(synonyms)
+    .map(([variant, canonical]) => `${variant} = ${canonical}`)
+    .join('\n');
+}
+
+function parseSynonyms(text: string): { synonyms: Record<string, string>; errors: string[] } {
+  const synonyms: Record<string, string> = {};
+  const errors: string[] = [];
+
+  for (const [index, line] of text.split('\n').entries()) {
+    if (!line.trim()) continue;
+    const separator = line.lastIndexOf('=');
+    const variant = line.slice(0, separator).trim();
+    const canonical = line.slice(separator + 1).trim();
+    if (separator === -1 || !variant || !canonical) {
+      errors.push(`Line ${index + 1}: expected "variant = canonical name"`);
+      continue;
+    }
+    synonyms[variant] = canonical;
+  }
+
+  return { synonyms, errors };
+}
+
+export function NormalizationSettings({ value, disabled = false, onChange }: NormalizationSettingsProps) {
+  const [rewriteText, setRewriteText] = useState(() => formatRewrites(value.rewrites ?? []));
+  const [synonymText, setSynonymText] = useState(() => formatSynonyms(value.synonyms ?? {}));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = (changes: Partial<NormalizationRules>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const handleRewritesChange = (text: string) => {
+    setRewriteText(text);
+    const parsed = parseRewrites(text);
+    setErrors([...parsed.errors, ...parseSynonyms(synonymText).errors]);
+    update({ rewrites: parsed.rules.length > 0 ? parsed.rules : undefined });
+  };
+
+  const handleSynonymsChange = (text: string) => {
+    setSynonymText(text);
+    const parsed = parseSynonyms(text);
+    setErrors([...parseRewrites(rewriteText).errors, ...parsed.errors]);
+    update({ synonyms: Object.keys(parsed.synonyms).length > 0 ? parsed.synonyms : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium">Item normalization</p>
+        <p className="text-xs text-gray-500">
+          Applied in order: Unicode form, whitespace, rewrites, case, then synonyms
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Unicode</Label>
+          <Select
+            value={value.unicode ?? NONE}
+            onValueChange={(unicode: string) => update({ unicode: unicode === NONE ? undefined : unicode as 'NFC' | 'NFKC' })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Leave as is</SelectItem>
+              <SelectItem value="NFC">Compose accents (NFC)</SelectItem>
+              <SelectItem value="NFKC">Compatibility (NFKC)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Case</Label>
+          <Select
+            value={value.case ?? NONE}
+            onValueChange={(folding: string) => update({ case: folding === NONE ? undefined : folding as 'lower' | 'upper' })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Leave as is</SelectItem>
+              <SelectItem value="lower">lowercase</SelectItem>
+              <SelectItem value="upper">UPPERCASE</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2 pt-5">
+          <Checkbox
+            id="collapse-whitespace"
+            checked={value.collapse_whitespace ?? false}
+            onCheckedChange={(checked: boolean | 'indeterminate') =>
+              update({ collapse_whitespace: checked === true ? true : undefined })
+            }
+            disabled={disabled}
+          />
+          <Label htmlFor="collapse-whitespace" className="text-xs">Collapse whitespace</Label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="rewrite-rules" className="text-xs">Rewrite rules</Label>
+          <Textarea
+            id="rewrite-rules"
+            rows={3}
+            className="font-mono text-xs"
+            placeholder={'\\s*\\d+\\s*(ml|l)$ => \n/^n\\/a$/i => '}
+            value={rewriteText}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleRewritesChange(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="synonyms" className="text-xs">Synonyms</Label>
+          <Textarea
+            id="synonyms"
+            rows={3}
+            className="font-mono text-xs"
+            placeholder={'semi-skimmed = milk\nsoda = soft drink'}
+            value={synonymText}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleSynonymsChange(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {errors.map((message: string) => (
+        <p key={message} className="text-xs text-red-600">{message}</p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import type {
+  ColumnMapping,
+  Deduplication,
+  FilePreview,
+  FileUpload,
+  NormalizationRules,
+  ProcessingMode,
+  SheetSelection,
+  WorkbookSheet
+} from '../../../server/src/schema';
+
+interface ReprocessDialogProps {
+  file: FileUpload | null;
+  onClose: () => void;
+  onProcessed: () => void;
+}
+
+export function ReprocessDialog({ file, onClose, onProcessed }: ReprocessDialogProps) {
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [sheets, setSheets] = useState<WorkbookSheet[]>([]);
+  const [mode, setMode] = useState<ProcessingMode>('replace');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    setMode('replace');
+    if (!file) return;
+
+    Promise.all([
+      trpc.previewFile.query({ fileUploadId: file.id }),
+      trpc.getWorkbookSheets.query({ fileUploadId: file.id })
+    ])
+      .then(([filePreview, workbookSheets]: [FilePreview, WorkbookSheet[]]) => {
+        setSheets(workbookSheets);
+        setPreview(filePreview);
+      })
+      .catch((err: unknown) => {
+        console.error('Failed to preview file:', err);
+        setError(err instanceof Error ? err.message : 'Failed to read the file');
+      });
+  }, [file]);
+
+  const handleProcess = async (
+    columnMapping: ColumnMapping,
+    sheetSelection: SheetSelection,
+    normalization: NormalizationRules,
+    deduplication: Deduplication
+  ) => {
+    if (!file) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      // Files that were never processed have nothing to replace, so the
+      // mode only matters once transactions exist
+      await trpc.processExcelFile.mutate({
+        fileUploadId: file.id,
+        column_mapping: columnMapping,
+        sheets: sheetSelection,
+        normalization,
+        deduplication,
+        mode
+      });
+      onProcessed();
+      onClose();
+    } catch (err) {
+      console.error('Processing failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to process file');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open: boolean) => !open && !isProcessing && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{file?.status === 'completed' ? 'Reprocess' : 'Process'} {file?.original_name}</DialogTitle>
+          <DialogDescription>
+            Analyses run on the current transactions are marked as stale once the file is reprocessed
+          </DialogDescription>
+        </DialogHeader>
+
+        {file?.status === 'completed' && (
+          <div className="space-y-1">
+            <Label className="text-xs">Existing transactions</Label>
+            <Select value={mode} onValueChange={(value: string) => setMode(value as ProcessingMode)} disabled={isProcessing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="replace">Replace them</SelectItem>
+                <SelectItem value="append">Keep them and append</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">
+              ❌ {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {preview ? (
+          <ColumnMappingWizard
+            key={preview.file_upload_id}
+            preview={preview}
+            sheets={sheets}
+            initialSheets={file?.sheets}
+            isProcessing={isProcessing}
+            cancelLabel="Cancel"
+            onConfirm={handleProcess}
+            onCancel={onClose}
+          />
+        ) : !error && (
+          <p className="text-sm text-gray-500 text-center py-4">Reading file...</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import type {
+  AssociationRule,
+  RuleTransactionKind,
+  RuleTransactions,
+  Transaction
+} from '../../../server/src/schema';
+
+interface RuleTransactionsDialogProps {
+  rule: AssociationRule | null;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+export function RuleTransactionsDialog({ rule, onClose }: RuleTransactionsDialogProps) {
+  const [kind, setKind] = useState<RuleTransactionKind>('supporting');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<RuleTransactions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the supporting transactions whenever another rule is opened
+  useEffect(() => {
+    setKind('supporting');
+    setPage(1);
+    setResult(null);
+  }, [rule]);
+
+  useEffect(() => {
+    if (!rule) return;
+
+    setIsLoading(true);
+    setError(null);
+    trpc.getRuleTransactions.query({ ruleId: rule.id, kind, page, page_size: PAGE_SIZE })
+      .then((ruleTransactions: RuleTransactions) => setResult(ruleTransactions))
+      .catch((err: unknown) => {
+        console.error('Failed to load rule transactions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load transactions');
+      })
+      .finally(() => setIsLoading(false));
+  }, [rule, kind, page]);
+
+  const handleKindChange = (value: string) => {
+    setKind(value as RuleTransactionKind);
+    setPage(1);
+  };
+
+  const total = result ? (kind === 'supporting' ? result.supporting_count : result.counter_example_count) : 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const ruleItems = new Set(rule ? [...rule.antecedent, ...rule.consequent] : []);
+
+  return (
+    <Dialog open={rule !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {rule?.antecedent.join(', ')} → {rule?.consequent.join(', ')}
+          </DialogTitle>
+          <DialogDescription>
+            Baskets behind this rule in the analysed file. Counter-examples contain the antecedent but not the
+            whole consequent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={kind} onValueChange={handleKindChange}>
+          <TabsList>
+            <TabsTrigger value="supporting">
+              Supporting{result ? ` (${result.supporting_count})` : ''}
+            </TabsTrigger>
+            <TabsTrigger value="counter_examples">
+              Counter-examples{result ? ` (${result.counter_example_count})` : ''}
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <div className="border rounded-md max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-40">Transaction ID</TableHead>
+                <TableHead>Items</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result?.transactions.map((transaction: Transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell className="text-xs font-mono align-top">{transaction.transaction_id}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {transaction.items.map((item: string) => (
+                        <Badge key={item} variant={ruleItems.has(item) ? 'default' : 'secondary'} className="text-xs">
+                          {item}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {result && result.transactions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={2} className="text-center text-sm text-gray-500 py-6">
+                    {kind === 'supporting' ? 'No supporting transactions' : 'No counter-examples'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 text-xs text-gray-600">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isLoading || page <= 1}
+            onClick={() => setPage((prev: number) => prev - 1)}
+          >
+            Previous
+          </Button>
+          <span>Page {page} of {pageCount}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isLoading || page >= pageCount}
+            onClick={() => setPage((prev: number) => prev + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { parseItemList } from '@/utils/items';
+import type { GetTransactionsInput, Transaction, TransactionPage } from '../../../server/src/schema';
+
+interface TransactionBrowserProps {
+  fileUploadId: number;
+}
+
+const PAGE_SIZE = 25;
+
+export function TransactionBrowser({ fileUploadId }: TransactionBrowserProps) {
+  const [transactionId, setTransactionId] = useState('');
+  const [containsAll, setContainsAll] = useState('');
+  const [containsAny, setContainsAny] = useState('');
+  const [filters, setFilters] = useState<Omit<GetTransactionsInput, 'fileUploadId'>>({});
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<TransactionPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    trpc.getTransactions.query({ fileUploadId, ...filters, page, page_size: PAGE_SIZE })
+      .then((transactionPage: TransactionPage) => setResult(transactionPage))
+      .catch((err: unknown) => {
+        console.error('Failed to load transactions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load transactions');
+      })
+      .finally(() => setIsLoading(false));
+  }, [fileUploadId, filters, page]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({
+      transaction_id: transactionId.trim() || undefined,
+      contains_all: parseItemList(containsAll),
+      contains_any: parseItemList(containsAny)
+    });
+  };
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="search-transaction-id" className="text-xs">Transaction ID</Label>
+          <Input
+            id="search-transaction-id"
+            value={transactionId}
+            placeholder="e.g. T00"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTransactionId(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="search-contains-all" className="text-xs">Contains all of</Label>
+          <Input
+            id="search-contains-all"
+            value={containsAll}
+            placeholder="bread, milk"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContainsAll(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="search-contains-any" className="text-xs">Contains any of</Label>
+          <Input
+            id="search-contains-any"
+            value={containsAny}
+            placeholder="eggs, butter"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContainsAny(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={isLoading}>Search</Button>
+      </form>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="border rounded-md max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-40">Transaction ID</TableHead>
+              <TableHead>Items</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result?.transactions.map((transaction: Transaction) => (
+              <TableRow key={transaction.id}>
+                <TableCell className="text-xs font-mono align-top">
+                  {transaction.transaction_id}
+                  {transaction.sheet_name && (
+                    <span className="block text-gray-400">{transaction.sheet_name}</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {transaction.items.map((item: string) => (
+                      <Badge key={item} variant="secondary" className="text-xs">
+                        {item}
+                        {transaction.quantities && transaction.quantities[item] > 1 && ` ×${transaction.quantities[item]}`}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {result && result.transactions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={2} className="text-center text-sm text-gray-500 py-6">
+                  No matching transactions
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>{result ? `${result.total} matching transactions` : 'Loading...'}</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isLoading || page <= 1}
+            onClick={() => setPage((prev: number) => prev - 1)}
+          >
+            Previous
+          </Button>
+          <span>Page {page} of {pageCount}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isLoading || page >= pageCount}
+            onClick={() => setPage((prev: number) => prev + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+// Item lists are typed as comma separated names
+export function parseItemList(text: string): string[] | undefined {
+  const items = text.split(',').map(item => item.trim()).filter(item => item !== '');
+  return items.length > 0 ? items : undefined;
+}
@@ -0,0 +1,45 @@
+import superjson from 'superjson';
+import type { CsvOptions, FileUpload } from '../../../server/src/schema';
+
+// Streams the raw file to the server's upload endpoint, reporting the
+// percentage of bytes sent as the browser transmits them
+export function uploadFileWithProgress(
+  file: File,
+  onProgress: (percentage: number) => void,
+  csvOptions: CsvOptions = {}
+): Promise<FileUpload> {
+  return new Promise((resolve, reject) => {
+    const params = new URLSearchParams({ filename: file.name });
+    // Unset dialect options are detected by the server
+    for (const [key, value] of Object.entries(csvOptions)) {
+      if (value) params.set(key, value);
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `/api/upload?${params.toString()}`);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+
+    xhr.upload.onprogress = (event: ProgressEvent) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(superjson.parse<FileUpload>(xhr.responseText));
+        return;
+      }
+      let message = `Upload failed with status ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).error ?? message;
+      } catch {
+        // Non-JSON error body (e.g. from a proxy); keep the status message
+      }
+      reject(new Error(message));
+    };
+
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.send(file);
+  });
+}
@@ -9,3 +9,6 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Rows per INSERT statement, well below Postgres' bind parameter limit
+export const INSERT_BATCH_SIZE = 1000;
@@ -1,11 +1,26 @@
 
-import { serial, text, pgTable, timestamp, numeric, integer, jsonb, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, numeric, integer, jsonb, pgEnum, boolean } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import {
+  type CsvOptions,
+  type ColumnMapping,
+  type SheetSelection,
+  type NormalizationRules,
+  type Deduplication,
+  type SkippedRows,
+  type BasketSizeCount,
+  type TopK,
+  type RulePruning,
+  type ItemConstraints,
+  type RuleMeasures,
+  type RuleSignificance
+} from '../schema';
 
 // Enums
 export const fileStatusEnum = pgEnum('file_status', ['pending', 'processing', 'completed', 'failed']);
-export const algorithmEnum = pgEnum('algorithm', ['apriori', 'fp-growth']);
+export const algorithmEnum = pgEnum('algorithm', ['apriori', 'fp-growth', 'eclat']);
 export const analysisStatusEnum = pgEnum('analysis_status', ['pending', 'processing', 'completed', 'failed']);
+export const outputModeEnum = pgEnum('output_mode', ['all', 'closed', 'maximal']);
 
 // File uploads table
 export const fileUploadsTable = pgTable('file_uploads', {
@@ -15,6 +30,11 @@ export const fileUploadsTable = pgTable('file_uploads', {
   file_size: integer('file_size').notNull(),
   mime_type: text('mime_type').notNull(),
   file_path: text('file_path').notNull(),
+  csv_options: jsonb('csv_options').$type<CsvOptions>(), // Dialect overrides for CSV uploads
+  column_mapping: jsonb('column_mapping').$type<ColumnMapping>(), // Layout used by the last processing run
+  sheets: jsonb('sheets').$type<SheetSelection>(), // Worksheets read by the last processing run
+  normalization: jsonb('normalization').$type<NormalizationRules>(), // Item rules applied by the last processing run
+  deduplication: jsonb('deduplication').$type<Deduplication>(), // Duplicate handling used by the last processing run
   upload_date: timestamp('upload_date').defaultNow().notNull(),
   status: fileStatusEnum('status').default('pending').notNull()
 });
@@ -25,6 +45,24 @@ export const transactionsTable = pgTable('transactions', {
   file_upload_id: integer('file_upload_id').notNull(),
   transaction_id: text('transaction_id').notNull(),
   items: jsonb('items').notNull(), // Array of strings stored as JSON
+  sheet_name: text('sheet_name'), // Source worksheet; null for CSV files
+  quantities: jsonb('quantities').$type<Record<string, number>>(), // Item -> occurrences, when kept
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Ingestion reports table, one per file for its latest processing run
+export const ingestionReportsTable = pgTable('ingestion_reports', {
+  id: serial('id').primaryKey(),
+  file_upload_id: integer('file_upload_id').notNull(),
+  rows_read: integer('rows_read').notNull(),
+  skipped_rows: jsonb('skipped_rows').$type<SkippedRows>().notNull(),
+  transaction_count: integer('transaction_count').notNull(),
+  duplicate_transaction_count: integer('duplicate_transaction_count').notNull(),
+  duplicate_item_count: integer('duplicate_item_count').notNull(),
+  distinct_item_count: integer('distinct_item_count').notNull(),
+  basket_sizes: jsonb('basket_sizes').$type<BasketSizeCount[]>().notNull(),
+  top_items: jsonb('top_items').$type<{ item: string; count: number }[]>().notNull(),
+  suspicious_values: jsonb('suspicious_values').$type<{ value: string; count: number }[]>().notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
@@ -35,9 +73,18 @@ export const analysisResultsTable = pgTable('analysis_results', {
   algorithm: algorithmEnum('algorithm').notNull(),
   min_support: numeric('min_support', { precision: 5, scale: 4 }).notNull(),
   min_confidence: numeric('min_confidence', { precision: 5, scale: 4 }).notNull(),
+  output_mode: outputModeEnum('output_mode').default('all').notNull(),
+  top_k: jsonb('top_k').$type<TopK>(),
+  rule_pruning: jsonb('rule_pruning').$type<RulePruning>(),
+  item_constraints: jsonb('item_constraints').$type<ItemConstraints>(),
+  max_itemset_length: integer('max_itemset_length'),
+  max_antecedent_size: integer('max_antecedent_size'),
+  max_consequent_size: integer('max_consequent_size'),
+  effective_min_support: numeric('effective_min_support', { precision: 8, scale: 6 }), // Set on completion
   status: analysisStatusEnum('status').default('pending').notNull(),
   summary: text('summary'),
   error_message: text('error_message'),
+  is_stale: boolean('is_stale').default(false).notNull(), // Set when the file is reprocessed
   created_at: timestamp('created_at').defaultNow().notNull(),
   completed_at: timestamp('completed_at')
 });
@@ -49,6 +96,8 @@ export const frequentItemsetsTable = pgTable('frequent_itemsets', {
   itemset: jsonb('itemset').notNull(), // Array of strings stored as JSON
   support: numeric('support', { precision: 8, scale: 6 }).notNull(),
   frequency: integer('frequency').notNull(),
+  is_closed: boolean('is_closed').default(false).notNull(),
+  is_maximal: boolean('is_maximal').default(false).notNull(),
   algorithm: algorithmEnum('algorithm').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
@@ -62,6 +111,8 @@ export const associationRulesTable = pgTable('association_rules', {
   support: numeric('support', { precision: 8, scale: 6 }).notNull(),
   confidence: numeric('confidence', { precision: 8, scale: 6 }).notNull(),
   lift: numeric('lift', { precision: 8, scale: 6 }).notNull(),
+  measures: jsonb('measures').$type<RuleMeasures>(),
+  significance: jsonb('significance').$type<RuleSignificance>(),
   algorithm: algorithmEnum('algorithm').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
@@ -69,6 +120,7 @@ export const associationRulesTable = pgTable('association_rules', {
 // Relations
 export const fileUploadsRelations = relations(fileUploadsTable, ({ many }) => ({
   transactions: many(transactionsTable),
+  ingestionReports: many(ingestionReportsTable),
   analysisResults: many(analysisResultsTable)
 }));
 
@@ -79,6 +131,13 @@ export const transactionsRelations = relations(transactionsTable, ({ one }) => (
   })
 }));
 
+export const ingestionReportsRelations = relations(ingestionReportsTable, ({ one }) => ({
+  fileUpload: one(fileUploadsTable, {
+    fields: [ingestionReportsTable.file_upload_id],
+    references: [fileUploadsTable.id]
+  })
+}));
+
 export const analysisResultsRelations = relations(analysisResultsTable, ({ one, many }) => ({
   fileUpload: one(fileUploadsTable, {
     fields: [analysisResultsTable.file_upload_id],
@@ -109,6 +168,9 @@ export type NewFileUpload = typeof fileUploadsTable.$inferInsert;
 export type Transaction = typeof transactionsTable.$inferSelect;
 export type NewTransaction = typeof transactionsTable.$inferInsert;
 
+export type IngestionReport = typeof ingestionReportsTable.$inferSelect;
+export type NewIngestionReport = typeof ingestionReportsTable.$inferInsert;
+
 export type AnalysisResult = typeof analysisResultsTable.$inferSelect;
 export type NewAnalysisResult = typeof analysisResultsTable.$inferInsert;
 
@@ -122,6 +184,7 @@ export type NewAssociationRule = typeof associationRulesTable.$inferInsert;
 export const tables = {
   fileUploads: fileUploadsTable,
   transactions: transactionsTable,
+  ingestionReports: ingestionReportsTable,
   analysisResults: analysisResultsTable,
   frequentItemsets: frequentItemsetsTable,
   associationRules: associationRulesTable
@@ -21,7 +21,8 @@ export const getAnalysisById = async (analysisId: number): Promise<AnalysisResul
     return {
       ...analysisResult,
       min_support: parseFloat(analysisResult.min_support),
-      min_confidence: parseFloat(analysisResult.min_confidence)
+      min_confidence: parseFloat(analysisResult.min_confidence),
+      effective_min_support: analysisResult.effective_min_support === null ? null : parseFloat(analysisResult.effective_min_support)
     };
   } catch (error) {
     console.error('Failed to get analysis by ID:', error);
@@ -15,7 +15,8 @@ export const getAnalysisResults = async (): Promise<AnalysisResult[]> => {
     return results.map(result => ({
       ...result,
       min_support: parseFloat(result.min_support),
-      min_confidence: parseFloat(result.min_confidence)
+      min_confidence: parseFloat(result.min_confidence),
+      effective_min_support: result.effective_min_support === null ? null : parseFloat(result.effective_min_support)
     }));
   } catch (error) {
     console.error('Failed to fetch analysis results:', error);
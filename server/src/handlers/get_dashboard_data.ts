@@ -56,7 +56,8 @@ export async function getDashboardData(analysisId: number): Promise<DashboardDat
       parameters: {
         algorithm: analysisResult.algorithm,
         min_support: parseFloat(analysisResult.min_support),
-        min_confidence: parseFloat(analysisResult.min_confidence)
+        min_confidence: parseFloat(analysisResult.min_confidence),
+        output_mode: analysisResult.output_mode
       }
     };
   } catch (error) {
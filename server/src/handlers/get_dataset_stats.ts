@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { fileUploadsTable, transactionsTable } from '../db/schema';
+import { type DatasetStats } from '../schema';
+import { count, asc, eq, sql } from 'drizzle-orm';
+
+// Middle basket size read off the size histogram; even counts average the
+// two middle sizes
+function medianFromHistogram(histogram: { size: number; count: number }[], total: number): number {
+  const middle = (position: number): number => {
+    let seen = 0;
+    for (const bucket of histogram) {
+      seen += bucket.count;
+      if (position < seen) return bucket.size;
+    }
+    return 0;
+  };
+  return total % 2 === 1 ? middle((total - 1) / 2) : (middle(total / 2 - 1) + middle(total / 2)) / 2;
+}
+
+export async function getDatasetStats(fileUploadId: number): Promise<DatasetStats> {
+  try {
+    const fileUploadRecords = await db.select({ id: fileUploadsTable.id })
+      .from(fileUploadsTable)
+      .where(eq(fileUploadsTable.id, fileUploadId))
+      .execute();
+
+    if (fileUploadRecords.length === 0) {
+      throw new Error(`File upload with id ${fileUploadId} not found`);
+    }
+
+    // Aggregate in the database rather than loading every basket
+    const basketSize = sql<number>`jsonb_array_length(${transactionsTable.items})`.mapWith(Number);
+    const basketSizes = await db.select({ size: basketSize, count: count() })
+      .from(transactionsTable)
+      .where(eq(transactionsTable.file_upload_id, fileUploadId))
+      .groupBy(basketSize)
+      .orderBy(asc(basketSize))
+      .execute();
+
+    // Items are counted once per transaction, so the count is the item's
+    // support count even for rows stored before items were deduplicated
+    const { rows: itemFrequencies } = await db.execute<{ item: string; count: number }>(sql`
+      select item.value as item, count(distinct ${transactionsTable.id})::int as count
+      from ${transactionsTable}, jsonb_array_elements_text(${transactionsTable.items}) as item(value)
+      where ${transactionsTable.file_upload_id} = ${fileUploadId}
+      group by item.value
+      order by count desc, item.value
+    `);
+
+    const transactionCount = basketSizes.reduce((total, bucket) => total + bucket.count, 0);
+    const itemCount = basketSizes.reduce((total, bucket) => total + bucket.size * bucket.count, 0);
+    const averageBasketSize = transactionCount > 0 ? itemCount / transactionCount : 0;
+
+    return {
+      file_upload_id: fileUploadId,
+      transaction_count: transactionCount,
+      item_count: itemCount,
+      distinct_item_count: itemFrequencies.length,
+      density: itemFrequencies.length > 0 ? averageBasketSize / itemFrequencies.length : 0,
+      average_basket_size: averageBasketSize,
+      median_basket_size: medianFromHistogram(basketSizes, transactionCount),
+      max_basket_size: basketSizes.length > 0 ? basketSizes[basketSizes.length - 1].size : 0,
+      basket_sizes: basketSizes,
+      item_frequencies: itemFrequencies.map(frequency => ({
+        ...frequency,
+        support: frequency.count / transactionCount
+      }))
+    };
+  } catch (error) {
+    console.error('Failed to compute dataset statistics:', error);
+    throw error;
+  }
+}
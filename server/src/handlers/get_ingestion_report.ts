@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { ingestionReportsTable } from '../db/schema';
+import { type IngestionReport } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Returns the report of the file's latest processing run, or null when the
+// file hasn't been processed
+export async function getIngestionReport(fileUploadId: number): Promise<IngestionReport | null> {
+  try {
+    const reports = await db.select()
+      .from(ingestionReportsTable)
+      .where(eq(ingestionReportsTable.file_upload_id, fileUploadId))
+      .execute();
+
+    return reports[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch ingestion report:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { associationRulesTable, analysisResultsTable, transactionsTable } from '../db/schema';
+import { type GetRuleTransactionsInput, type RuleTransactions } from '../schema';
+import { and, asc, eq, getTableColumns, sql } from 'drizzle-orm';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Itemset tests against the rule each transaction is joined to
+const supports = sql`${transactionsTable.items}
+  @> (${associationRulesTable.antecedent} || ${associationRulesTable.consequent})`;
+const contradicts = sql`(${transactionsTable.items} @> ${associationRulesTable.antecedent}
+  and not ${transactionsTable.items} @> ${associationRulesTable.consequent})`;
+
+export async function getRuleTransactions(input: GetRuleTransactionsInput): Promise<RuleTransactions> {
+  try {
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.id, input.ruleId))
+      .execute();
+
+    if (rules.length === 0) {
+      throw new Error(`Association rule with id ${input.ruleId} not found`);
+    }
+
+    const rule = rules[0];
+    const page = input.page ?? 1;
+    const pageSize = input.page_size ?? DEFAULT_PAGE_SIZE;
+    const matches = input.kind === 'counter_examples' ? contradicts : supports;
+
+    // Transactions of the file the rule's analysis ran on, joined to the
+    // rule so its itemsets are compared in the database
+    const [counts] = await db.select({
+      supporting: sql<number>`count(*) filter (where ${supports})`.mapWith(Number),
+      contradicting: sql<number>`count(*) filter (where ${contradicts})`.mapWith(Number)
+    })
+      .from(transactionsTable)
+      .innerJoin(analysisResultsTable, eq(analysisResultsTable.file_upload_id, transactionsTable.file_upload_id))
+      .innerJoin(associationRulesTable, eq(associationRulesTable.analysis_id, analysisResultsTable.id))
+      .where(eq(associationRulesTable.id, rule.id))
+      .execute();
+
+    const transactions = await db.select(getTableColumns(transactionsTable))
+      .from(transactionsTable)
+      .innerJoin(analysisResultsTable, eq(analysisResultsTable.file_upload_id, transactionsTable.file_upload_id))
+      .innerJoin(associationRulesTable, eq(associationRulesTable.analysis_id, analysisResultsTable.id))
+      .where(and(eq(associationRulesTable.id, rule.id), matches))
+      .orderBy(asc(transactionsTable.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .execute();
+
+    return {
+      rule: {
+        ...rule,
+        antecedent: rule.antecedent as string[],
+        consequent: rule.consequent as string[],
+        support: parseFloat(rule.support),
+        confidence: parseFloat(rule.confidence),
+        lift: parseFloat(rule.lift)
+      },
+      supporting_count: counts.supporting,
+      counter_example_count: counts.contradicting,
+      transactions: transactions.map(transaction => ({
+        ...transaction,
+        items: transaction.items as string[]
+      })),
+      page,
+      page_size: pageSize
+    };
+  } catch (error) {
+    console.error('Failed to fetch rule transactions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { transactionsTable } from '../db/schema';
+import { type GetTransactionsInput, type TransactionPage } from '../schema';
+import { and, asc, count, eq, ilike, sql, type SQL } from 'drizzle-orm';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Matches the text literally inside an ILIKE pattern
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+export async function getTransactions(input: GetTransactionsInput): Promise<TransactionPage> {
+  try {
+    const page = input.page ?? 1;
+    const pageSize = input.page_size ?? DEFAULT_PAGE_SIZE;
+
+    const conditions: SQL<unknown>[] = [eq(transactionsTable.file_upload_id, input.fileUploadId)];
+
+    const transactionId = input.transaction_id?.trim();
+    if (transactionId) {
+      conditions.push(ilike(transactionsTable.transaction_id, `%${escapeLikePattern(transactionId)}%`));
+    }
+
+    // Both item filters are answered from the JSONB array itself
+    if (input.contains_all && input.contains_all.length > 0) {
+      conditions.push(sql`${transactionsTable.items} @> ${JSON.stringify(input.contains_all)}::jsonb`);
+    }
+
+    if (input.contains_any && input.contains_any.length > 0) {
+      const items = sql.join(input.contains_any.map(item => sql`${item}`), sql`, `);
+      conditions.push(sql`${transactionsTable.items} ?| array[${items}]::text[]`);
+    }
+
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(transactionsTable)
+      .where(where)
+      .execute();
+
+    const results = await db.select()
+      .from(transactionsTable)
+      .where(where)
+      .orderBy(asc(transactionsTable.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .execute();
+
+    return {
+      transactions: results.map(transaction => ({
+        ...transaction,
+        items: transaction.items as string[]
+      })),
+      total,
+      page,
+      page_size: pageSize
+    };
+  } catch (error) {
+    console.error('Failed to fetch transactions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { fileUploadsTable } from '../db/schema';
+import { type WorkbookSheet } from '../schema';
+import { loadWorkbook, toTextRows } from '../ingestion/workbook';
+import { eq } from 'drizzle-orm';
+
+export async function getWorkbookSheets(fileUploadId: number): Promise<WorkbookSheet[]> {
+  try {
+    const fileUploadRecords = await db.select()
+      .from(fileUploadsTable)
+      .where(eq(fileUploadsTable.id, fileUploadId))
+      .execute();
+
+    if (fileUploadRecords.length === 0) {
+      throw new Error(`File upload with id ${fileUploadId} not found`);
+    }
+
+    const fileUpload = fileUploadRecords[0];
+    const workbook = await loadWorkbook(fileUpload.file_path, fileUpload.csv_options ?? {});
+
+    // Row counts include a possible header row
+    return workbook.sheets.map(sheet => ({
+      name: sheet.name,
+      row_count: toTextRows(sheet.rows).length
+    }));
+  } catch (error) {
+    console.error('Failed to list workbook sheets:', error);
+    throw error;
+  }
+}
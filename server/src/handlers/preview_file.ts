@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { fileUploadsTable } from '../db/schema';
+import { type PreviewFileInput, type FilePreview } from '../schema';
+import { loadWorkbook, selectSheets, toTextRows } from '../ingestion/workbook';
+import { detectHeader } from '../ingestion/header_detection';
+import { eq } from 'drizzle-orm';
+
+const DEFAULT_PREVIEW_ROWS = 20;
+
+export async function previewFile(input: PreviewFileInput): Promise<FilePreview> {
+  try {
+    const fileUploadRecords = await db.select()
+      .from(fileUploadsTable)
+      .where(eq(fileUploadsTable.id, input.fileUploadId))
+      .execute();
+
+    if (fileUploadRecords.length === 0) {
+      throw new Error(`File upload with id ${input.fileUploadId} not found`);
+    }
+
+    const fileUpload = fileUploadRecords[0];
+    const limit = input.limit ?? DEFAULT_PREVIEW_ROWS;
+
+    // Read one extra row so a header doesn't count against the limit
+    const workbook = await loadWorkbook(fileUpload.file_path, fileUpload.csv_options ?? {}, limit + 1);
+    const [sheet] = selectSheets(workbook, input.sheet ? [input.sheet] : null);
+    const rows = sheet ? toTextRows(sheet.rows) : [];
+
+    const columnCount = Math.max(0, ...rows.map(row => row.length));
+    const firstRow = rows[0] ?? [];
+    const headers = Array.from({ length: columnCount }, (_, column) =>
+      (firstRow[column] ?? '').trim() || `Column ${column + 1}`
+    );
+
+    return {
+      file_upload_id: fileUpload.id,
+      format: workbook.format,
+      headers,
+      has_header: detectHeader(rows),
+      rows: rows.slice(0, limit + 1),
+      column_mapping: fileUpload.column_mapping,
+      normalization: fileUpload.normalization,
+      deduplication: fileUpload.deduplication
+    };
+  } catch (error) {
+    console.error('File preview failed:', error);
+    throw error;
+  }
+}
@@ -1,20 +1,20 @@
 
-import { db } from '../db';
-import { fileUploadsTable, transactionsTable } from '../db/schema';
-import { type Transaction } from '../schema';
-import { eq } from 'drizzle-orm';
-import { readFile } from 'fs/promises';
-
-// Simple CSV parser for Excel-like data (assuming CSV format for now)
-function parseCSVData(content: string): string[][] {
-  const lines = content.split('\n').filter(line => line.trim());
-  return lines.map(line => {
-    // Simple CSV parsing - split by comma and clean whitespace
-    return line.split(',').map(cell => cell.trim().replace(/^["']|["']$/g, ''));
-  });
-}
+import { db, INSERT_BATCH_SIZE } from '../db';
+import { fileUploadsTable, transactionsTable, analysisResultsTable, ingestionReportsTable } from '../db/schema';
+import { type ProcessingSummary, type ProcessExcelFileOptions } from '../schema';
+import { loadWorkbook, selectSheets, toTextRows } from '../ingestion/workbook';
+import { collectBaskets, DEFAULT_COLUMN_MAPPING } from '../ingestion/baskets';
+import { normalizeBaskets } from '../ingestion/normalization';
+import { deduplicateBaskets } from '../ingestion/deduplication';
+import { buildIngestionReport } from '../ingestion/report';
+import { and, count, eq } from 'drizzle-orm';
+
+export async function processExcelFile(
+  fileUploadId: number,
+  options: ProcessExcelFileOptions = {}
+): Promise<ProcessingSummary> {
+  const { column_mapping: columnMapping, sheets, normalization, deduplication, mode } = options;
 
-export async function processExcelFile(fileUploadId: number): Promise<Transaction[]> {
   try {
     // Update file status to processing
     await db.update(fileUploadsTable)
@@ -33,76 +33,148 @@ export async function processExcelFile(fileUploadId: number): Promise<Transactio
     }
 
     const fileUpload = fileUploadRecords[0];
+    const mapping = columnMapping ?? fileUpload.column_mapping ?? DEFAULT_COLUMN_MAPPING;
+    const sheetSelection = sheets ?? fileUpload.sheets ?? null;
+    const normalizationRules = normalization ?? fileUpload.normalization ?? null;
+    const duplicateHandling = deduplication ?? fileUpload.deduplication ?? {};
 
-    // Read the file as text (assuming CSV format for simplicity)
-    const fileContent = await readFile(fileUpload.file_path, 'utf-8');
+    // Parse the selected worksheets (CSV files are treated as a single
+    // sheet); the format is detected from the content
+    const workbook = await loadWorkbook(fileUpload.file_path, fileUpload.csv_options ?? {});
+    const sheetRows = selectSheets(workbook, sheetSelection).map(sheet => ({
+      sheetName: workbook.format === 'csv' ? null : sheet.name,
+      rows: toTextRows(sheet.rows)
+    }));
     
-    if (!fileContent.trim()) {
-      throw new Error('File is empty');
+    if (sheetRows.every(sheet => sheet.rows.length === 0)) {
+      throw new Error('File contains no data');
     }
 
-    // Parse CSV data
-    const rawData = parseCSVData(fileContent);
+    // Each sheet is mapped on its own, so every sheet may carry a header
+    // row and baskets never span sheets. Duplicates are resolved after
+    // normalization, which can make two spellings the same item.
+    const collections = sheetRows.map(sheet => collectBaskets(sheet.rows, mapping));
+    const normalized = normalizeBaskets(
+      collections.flatMap((collection, index) =>
+        collection.baskets.map(basket => ({ ...basket, sheet_name: sheetRows[index].sheetName }))
+      ),
+      normalizationRules
+    );
+    const deduplicated = deduplicateBaskets(
+      normalized.baskets,
+      duplicateHandling.duplicate_transactions ?? 'merge'
+    );
+    const { baskets, duplicateItemCount, duplicateTransactionCount } = deduplicated;
     
-    if (rawData.length === 0) {
-      throw new Error('File contains no data');
+    if (baskets.length === 0) {
+      throw new Error('No valid transactions found in file');
     }
 
-    // Skip header row if present
-    const dataRows = rawData.slice(1).filter(row => row.length > 0);
-    
-    const transactions: Transaction[] = [];
-    
-    for (const row of dataRows) {
-      if (row.length < 2) continue; // Need at least transaction_id and one item
-      
-      const transactionId = String(row[0]).trim();
-      if (!transactionId) continue;
-      
-      // Extract items from remaining columns, filter out empty values
-      const items = row.slice(1)
-        .map(item => String(item).trim())
-        .filter(item => item && item !== '' && item !== 'undefined' && item !== 'null');
-      
-      if (items.length === 0) continue; // Skip transactions with no items
-      
-      // Insert transaction record
-      const result = await db.insert(transactionsTable)
-        .values({
-          file_upload_id: fileUploadId,
-          transaction_id: transactionId,
-          items: items // Store array directly - JSONB will handle the conversion
-        })
-        .returning()
+    // Replace, insert in batches and flag earlier analyses inside one
+    // transaction: a failure part way through leaves the file as it was
+    const { existing, staleAnalysisCount } = await db.transaction(async (tx) => {
+      // Lock the upload so concurrent runs see each other's transactions
+      await tx.select({ id: fileUploadsTable.id })
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUploadId))
+        .for('update')
         .execute();
 
-      // The items field is already an array from JSONB, no need to parse
-      const transaction = result[0];
-      transactions.push({
-        ...transaction,
-        items: transaction.items as string[] // Type assertion since JSONB returns unknown
-      });
-    }
+      const [{ existing }] = await tx.select({ existing: count() })
+        .from(transactionsTable)
+        .where(eq(transactionsTable.file_upload_id, fileUploadId))
+        .execute();
 
-    if (transactions.length === 0) {
-      throw new Error('No valid transactions found in file');
-    }
+      if (existing > 0 && !mode) {
+        throw new Error(
+          `File upload ${fileUploadId} already has ${existing} transactions; process it with mode 'replace' or 'append'`
+        );
+      }
 
-    // Update file status to completed
-    await db.update(fileUploadsTable)
-      .set({ status: 'completed' })
-      .where(eq(fileUploadsTable.id, fileUploadId))
-      .execute();
+      if (mode === 'replace') {
+        await tx.delete(transactionsTable)
+          .where(eq(transactionsTable.file_upload_id, fileUploadId))
+          .execute();
+      }
 
-    return transactions;
+      for (let start = 0; start < baskets.length; start += INSERT_BATCH_SIZE) {
+        await tx.insert(transactionsTable)
+          .values(baskets.slice(start, start + INSERT_BATCH_SIZE).map(basket => ({
+            file_upload_id: fileUploadId,
+            transaction_id: basket.transaction_id,
+            items: basket.items, // Store array directly - JSONB will handle the conversion
+            sheet_name: basket.sheet_name,
+            quantities: duplicateHandling.keep_quantities ? basket.quantities : null
+          })))
+          .execute();
+      }
+
+      // Analyses computed from the previous transactions no longer match
+      const staleAnalyses = await tx.update(analysisResultsTable)
+        .set({ is_stale: true })
+        .where(and(
+          eq(analysisResultsTable.file_upload_id, fileUploadId),
+          eq(analysisResultsTable.is_stale, false)
+        ))
+        .returning({ id: analysisResultsTable.id })
+        .execute();
+
+      // Keep the report of this run only
+      await tx.delete(ingestionReportsTable)
+        .where(eq(ingestionReportsTable.file_upload_id, fileUploadId))
+        .execute();
+
+      await tx.insert(ingestionReportsTable)
+        .values({ file_upload_id: fileUploadId, ...buildIngestionReport(collections, normalized.emptiedBasketCount, deduplicated) })
+        .execute();
+
+      // Update file status to completed, remembering an explicit mapping,
+      // sheet selection, normalization and deduplication so the file can be
+      // reprocessed the same way and its items explained. A failed run
+      // keeps the settings that produced the stored transactions.
+      await tx.update(fileUploadsTable)
+        .set({
+          status: 'completed',
+          ...(columnMapping && { column_mapping: columnMapping }),
+          ...(sheets && { sheets }),
+          ...(normalization && { normalization }),
+          ...(deduplication && { deduplication })
+        })
+        .where(eq(fileUploadsTable.id, fileUploadId))
+        .execute();
+
+      return { existing, staleAnalysisCount: staleAnalyses.length };
+    });
+
+    const basketSizes = baskets.map(basket => basket.items.length);
+    const itemCount = basketSizes.reduce((total, size) => total + size, 0);
+
+    return {
+      file_upload_id: fileUploadId,
+      transaction_count: baskets.length,
+      item_count: itemCount,
+      distinct_item_count: new Set(baskets.flatMap(basket => basket.items)).size,
+      average_basket_size: itemCount / baskets.length,
+      max_basket_size: basketSizes.reduce((largest, size) => Math.max(largest, size), 0),
+      duplicate_item_count: duplicateItemCount,
+      duplicate_transaction_count: duplicateTransactionCount,
+      replaced_transaction_count: mode === 'replace' ? existing : 0,
+      stale_analysis_count: staleAnalysisCount
+    };
 
   } catch (error) {
     console.error('File processing failed:', error);
     
-    // Update file status to failed
+    // Update file status to failed, unless an earlier run's transactions
+    // are still in place (writes of this run were rolled back)
     try {
+      const [{ remaining }] = await db.select({ remaining: count() })
+        .from(transactionsTable)
+        .where(eq(transactionsTable.file_upload_id, fileUploadId))
+        .execute();
+
       await db.update(fileUploadsTable)
-        .set({ status: 'failed' })
+        .set({ status: remaining > 0 ? 'completed' : 'failed' })
         .where(eq(fileUploadsTable.id, fileUploadId))
         .execute();
     } catch (updateError) {
@@ -0,0 +1,144 @@
+import { db, INSERT_BATCH_SIZE } from '../db';
+import { analysisResultsTable, transactionsTable, frequentItemsetsTable, associationRulesTable } from '../db/schema';
+import { type CreateAnalysisInput, type AnalysisResult } from '../schema';
+import { getMiningAlgorithm } from '../mining/registry';
+import { mineAtThreshold } from '../mining/mine';
+import { mineTopK } from '../mining/top_k';
+import { itemsetKey } from '../mining/itemsets';
+import { generateSummary } from '../mining/summary';
+import { eq } from 'drizzle-orm';
+
+// Runs the analysis lifecycle shared by every algorithm: record the
+// analysis, mine the file's transactions with the registered miner, derive
+// rules, persist both and summarize. Failures are recorded on the analysis.
+export async function runAnalysis(input: CreateAnalysisInput): Promise<AnalysisResult> {
+  try {
+    const miner = getMiningAlgorithm(input.algorithm);
+    const outputMode = input.output_mode ?? 'all';
+
+    // Create analysis result with processing status
+    const analysisResults = await db.insert(analysisResultsTable)
+      .values({
+        file_upload_id: input.file_upload_id,
+        algorithm: input.algorithm,
+        min_support: input.min_support.toString(),
+        min_confidence: input.min_confidence.toString(),
+        output_mode: outputMode,
+        top_k: input.top_k ?? null,
+        rule_pruning: input.rule_pruning ?? null,
+        item_constraints: input.item_constraints ?? null,
+        max_itemset_length: input.max_itemset_length ?? null,
+        max_antecedent_size: input.max_antecedent_size ?? null,
+        max_consequent_size: input.max_consequent_size ?? null,
+        status: 'processing'
+      })
+      .returning()
+      .execute();
+
+    const analysisResult = analysisResults[0];
+
+    try {
+      // Fetch transactions for the file
+      const transactions = await db.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.file_upload_id, input.file_upload_id))
+        .execute();
+
+      if (transactions.length === 0) {
+        throw new Error('No transactions found for the specified file');
+      }
+
+      const transactionItems: string[][] = transactions.map(t => t.items as string[]);
+      const totalTransactions = transactionItems.length;
+      const minSupportCount = Math.ceil(input.min_support * totalTransactions);
+
+      const options = {
+        outputMode,
+        minConfidence: input.min_confidence,
+        rulePruning: input.rule_pruning,
+        itemConstraints: input.item_constraints,
+        maxItemsetLength: input.max_itemset_length,
+        maxAntecedentSize: input.max_antecedent_size,
+        maxConsequentSize: input.max_consequent_size
+      };
+
+      // In top-k mode the minimum support only bounds the search
+      const mined = input.top_k
+        ? mineTopK(miner, transactionItems, Math.max(1, minSupportCount), input.top_k, options)
+        : mineAtThreshold(miner, transactionItems, minSupportCount, options);
+      const { frequentItemsets, associationRules, closedKeys, maximalKeys } = mined;
+      const effectiveMinSupport = mined.minSupportCount / totalTransactions;
+
+      for (let start = 0; start < frequentItemsets.length; start += INSERT_BATCH_SIZE) {
+        await db.insert(frequentItemsetsTable)
+          .values(frequentItemsets.slice(start, start + INSERT_BATCH_SIZE).map(itemset => ({
+            analysis_id: analysisResult.id,
+            itemset: itemset.itemset,
+            support: (itemset.count / totalTransactions).toString(),
+            frequency: itemset.count,
+            is_closed: closedKeys.has(itemsetKey(itemset.itemset)),
+            is_maximal: maximalKeys.has(itemsetKey(itemset.itemset)),
+            algorithm: input.algorithm
+          })))
+          .execute();
+      }
+
+      for (let start = 0; start < associationRules.length; start += INSERT_BATCH_SIZE) {
+        await db.insert(associationRulesTable)
+          .values(associationRules.slice(start, start + INSERT_BATCH_SIZE).map(rule => ({
+            analysis_id: analysisResult.id,
+            antecedent: rule.antecedent,
+            consequent: rule.consequent,
+            support: rule.support.toString(),
+            confidence: rule.confidence.toString(),
+            lift: rule.lift.toString(),
+            measures: rule.measures,
+            significance: rule.significance,
+            algorithm: input.algorithm
+          })))
+          .execute();
+      }
+
+      const summary = generateSummary(miner.name, mined, { ...input, output_mode: outputMode }, totalTransactions);
+
+      // Update analysis result to completed
+      const updatedResults = await db.update(analysisResultsTable)
+        .set({
+          status: 'completed',
+          effective_min_support: effectiveMinSupport.toString(),
+          summary,
+          completed_at: new Date()
+        })
+        .where(eq(analysisResultsTable.id, analysisResult.id))
+        .returning()
+        .execute();
+
+      const finalResult = updatedResults[0];
+      return {
+        ...finalResult,
+        min_support: parseFloat(finalResult.min_support),
+        min_confidence: parseFloat(finalResult.min_confidence),
+        effective_min_support: effectiveMinSupport
+      };
+
+    } catch (error) {
+      // Update analysis result to failed
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      await db.update(analysisResultsTable)
+        .set({
+          status: 'failed',
+          error_message: errorMessage,
+          completed_at: new Date()
+        })
+        .where(eq(analysisResultsTable.id, analysisResult.id))
+        .execute();
+
+      throw error;
+    }
+
+  } catch (error) {
+    console.error(`${input.algorithm} analysis failed:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,7 @@
+import { type CreateAnalysisInput, type AnalysisResult } from '../schema';
+import { runAnalysis } from './run_analysis';
+
+// Eclat through the shared analysis pipeline
+export async function runEclatAnalysis(input: CreateAnalysisInput): Promise<AnalysisResult> {
+  return runAnalysis({ ...input, algorithm: 'eclat' });
+}
@@ -0,0 +1,80 @@
+import { db } from '../db';
+import { fileUploadsTable } from '../db/schema';
+import { type StoreUploadedFileInput, type FileUpload } from '../schema';
+import { createWriteStream } from 'fs';
+import { mkdir, unlink } from 'fs/promises';
+import { basename, join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export class UploadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`File exceeds the maximum upload size of ${maxBytes} bytes`);
+    this.name = 'UploadTooLargeError';
+  }
+}
+
+export function getUploadDir(): string {
+  return resolve(process.env['UPLOAD_DIR'] || 'uploads');
+}
+
+export function getMaxUploadBytes(): number {
+  const configured = parseInt(process.env['MAX_UPLOAD_BYTES'] || '', 10);
+  return configured > 0 ? configured : DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+export async function storeUploadedFile(input: StoreUploadedFileInput, body: Readable): Promise<FileUpload> {
+  const uploadDir = getUploadDir();
+  const maxBytes = getMaxUploadBytes();
+
+  // Keep only a safe base name; the prefix makes stored names unique
+  const safeName = basename(input.original_name).replace(/[^\w.-]+/g, '_') || 'upload';
+  const filename = `${Date.now()}_${randomUUID().slice(0, 8)}_${safeName}`;
+  const filePath = join(uploadDir, filename);
+
+  let bytesWritten = 0;
+  const sizeLimiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytesWritten += chunk.length;
+      if (bytesWritten > maxBytes) {
+        callback(new UploadTooLargeError(maxBytes));
+        return;
+      }
+      callback(null, chunk);
+    }
+  });
+
+  try {
+    await mkdir(uploadDir, { recursive: true });
+    await pipeline(body, sizeLimiter, createWriteStream(filePath));
+
+    if (bytesWritten === 0) {
+      throw new Error('Uploaded file is empty');
+    }
+
+    // Record the stored file with its real location and size
+    const result = await db.insert(fileUploadsTable)
+      .values({
+        filename,
+        original_name: input.original_name,
+        file_size: bytesWritten,
+        mime_type: input.mime_type,
+        file_path: filePath,
+        csv_options: input.csv_options ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Storing uploaded file failed:', error);
+
+    // Don't leave partial files behind
+    await unlink(filePath).catch(() => {});
+
+    throw error;
+  }
+}
@@ -12,7 +12,8 @@ export const uploadFile = async (input: CreateFileUploadInput): Promise<FileUplo
         original_name: input.original_name,
         file_size: input.file_size,
         mime_type: input.mime_type,
-        file_path: input.file_path
+        file_path: input.file_path,
+        csv_options: input.csv_options ?? null
         // upload_date and status have defaults in the database
       })
       .returning()
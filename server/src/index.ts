@@ -5,24 +5,39 @@ import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
 import { z } from 'zod';
+import { type IncomingMessage, type ServerResponse } from 'http';
 
 // Import schemas
 import { 
   createFileUploadInputSchema, 
-  createAnalysisInputSchema 
+  createAnalysisInputSchema,
+  storeUploadedFileInputSchema,
+  processExcelFileInputSchema,
+  previewFileInputSchema,
+  getTransactionsInputSchema,
+  getRuleTransactionsInputSchema
 } from './schema';
 
 // Import handlers
 import { uploadFile } from './handlers/upload_file';
+import { storeUploadedFile, getMaxUploadBytes, UploadTooLargeError } from './handlers/store_uploaded_file';
 import { getFileUploads } from './handlers/get_file_uploads';
 import { processExcelFile } from './handlers/process_excel_file';
+import { previewFile } from './handlers/preview_file';
+import { getWorkbookSheets } from './handlers/get_workbook_sheets';
+import { getIngestionReport } from './handlers/get_ingestion_report';
+import { getDatasetStats } from './handlers/get_dataset_stats';
+import { getTransactions } from './handlers/get_transactions';
 import { runAprioriAnalysis } from './handlers/run_apriori_analysis';
 import { runFpGrowthAnalysis } from './handlers/run_fp_growth_analysis';
+import { runEclatAnalysis } from './handlers/run_eclat_analysis';
+import { runAnalysis } from './handlers/run_analysis';
 import { getAnalysisResults } from './handlers/get_analysis_results';
 import { getAnalysisById } from './handlers/get_analysis_by_id';
 import { getDashboardData } from './handlers/get_dashboard_data';
 import { getFrequentItemsets } from './handlers/get_frequent_itemsets';
 import { getAssociationRules } from './handlers/get_association_rules';
+import { getRuleTransactions } from './handlers/get_rule_transactions';
 
 const t = initTRPC.create({
   transformer: superjson,
@@ -45,11 +60,35 @@ const appRouter = router({
   getFileUploads: publicProcedure
     .query(() => getFileUploads()),
 
+  getWorkbookSheets: publicProcedure
+    .input(z.object({ fileUploadId: z.number() }))
+    .query(({ input }) => getWorkbookSheets(input.fileUploadId)),
+
+  previewFile: publicProcedure
+    .input(previewFileInputSchema)
+    .query(({ input }) => previewFile(input)),
+
   processExcelFile: publicProcedure
+    .input(processExcelFileInputSchema)
+    .mutation(({ input: { fileUploadId, ...options } }) => processExcelFile(fileUploadId, options)),
+
+  getIngestionReport: publicProcedure
     .input(z.object({ fileUploadId: z.number() }))
-    .mutation(({ input }) => processExcelFile(input.fileUploadId)),
+    .query(({ input }) => getIngestionReport(input.fileUploadId)),
+
+  getDatasetStats: publicProcedure
+    .input(z.object({ fileUploadId: z.number() }))
+    .query(({ input }) => getDatasetStats(input.fileUploadId)),
+
+  getTransactions: publicProcedure
+    .input(getTransactionsInputSchema)
+    .query(({ input }) => getTransactions(input)),
+
+  // Analysis endpoints; the per-algorithm procedures run the same pipeline
+  runAnalysis: publicProcedure
+    .input(createAnalysisInputSchema)
+    .mutation(({ input }) => runAnalysis(input)),
 
-  // Analysis endpoints
   runAprioriAnalysis: publicProcedure
     .input(createAnalysisInputSchema)
     .mutation(({ input }) => runAprioriAnalysis(input)),
@@ -58,6 +97,10 @@ const appRouter = router({
     .input(createAnalysisInputSchema)
     .mutation(({ input }) => runFpGrowthAnalysis(input)),
 
+  runEclatAnalysis: publicProcedure
+    .input(createAnalysisInputSchema)
+    .mutation(({ input }) => runEclatAnalysis(input)),
+
   getAnalysisResults: publicProcedure
     .query(() => getAnalysisResults()),
 
@@ -77,15 +120,73 @@ const appRouter = router({
   getAssociationRules: publicProcedure
     .input(z.object({ analysisId: z.number() }))
     .query(({ input }) => getAssociationRules(input.analysisId)),
+
+  getRuleTransactions: publicProcedure
+    .input(getRuleTransactionsInputSchema)
+    .query(({ input }) => getRuleTransactions(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
+const sendJson = (res: ServerResponse, status: number, body: string) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body);
+};
+
+// Binary uploads bypass tRPC: the request body is the raw file, streamed to
+// disk, with the original name (and optional CSV delimiter, quote and
+// encoding overrides) in the query string and the mime type in
+// Content-Type. Responds with the created file upload record (superjson).
+async function handleUploadRequest(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, JSON.stringify({ error: 'Method not allowed' }));
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const csvOptions = {
+    delimiter: url.searchParams.get('delimiter') ?? undefined,
+    quote: url.searchParams.get('quote') ?? undefined,
+    encoding: url.searchParams.get('encoding') ?? undefined
+  };
+  const input = storeUploadedFileInputSchema.safeParse({
+    original_name: url.searchParams.get('filename') ?? '',
+    mime_type: req.headers['content-type'] || 'application/octet-stream',
+    csv_options: Object.values(csvOptions).some(value => value !== undefined) ? csvOptions : undefined
+  });
+  if (!input.success) {
+    sendJson(res, 400, JSON.stringify({ error: `Invalid upload parameters: ${input.error.message}` }));
+    return;
+  }
+
+  const declaredSize = parseInt(req.headers['content-length'] ?? '', 10);
+  if (declaredSize > getMaxUploadBytes()) {
+    sendJson(res, 413, JSON.stringify({ error: new UploadTooLargeError(getMaxUploadBytes()).message }));
+    req.resume();
+    return;
+  }
+
+  try {
+    const fileUpload = await storeUploadedFile(input.data, req);
+    sendJson(res, 201, superjson.stringify(fileUpload));
+  } catch (error) {
+    const status = error instanceof UploadTooLargeError ? 413 : 500;
+    const message = error instanceof Error ? error.message : 'Upload failed';
+    sendJson(res, status, JSON.stringify({ error: message }));
+  }
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        if (req.url === '/upload' || req.url?.startsWith('/upload?')) {
+          handleUploadRequest(req, res);
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
     createContext() {
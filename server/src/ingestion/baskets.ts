@@ -0,0 +1,204 @@
+import { type ColumnMapping, type SkippedRows } from '../schema';
+
+// Turns parsed text rows into baskets according to a column mapping
+
+export interface Basket {
+  transaction_id: string;
+  items: string[];
+}
+
+// Rows skipped while reading, before normalization
+export type ReadSkippedRows = Omit<SkippedRows, 'emptied_by_normalization'>;
+
+// Baskets read from a sheet, with what happened to its data rows
+export interface BasketCollection {
+  baskets: Basket[];
+  rowsRead: number;
+  skippedRows: ReadSkippedRows;
+  suspiciousValues: Map<string, number>; // Placeholder-like item cells by text
+}
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = { layout: 'wide', id_column: 0 };
+
+// Cells marking an item as present in a binary matrix
+const TRUTHY_CELLS = new Set(['1', 'true', 'yes', 'y', 'x']);
+
+// Item cells that usually stand for a missing value rather than an item.
+// 'null' and 'undefined' are read as blank, the others are kept as items.
+const SUSPICIOUS_CELLS = new Set(['null', 'undefined', 'n/a', '#n/a', 'na', 'nan', 'none', 'nil', '-', '?', 'unknown']);
+
+// Trims a cell, treating stringified empty values as blank
+function cleanCell(value: string | undefined): string {
+  const trimmed = (value ?? '').trim();
+  return trimmed === 'undefined' || trimmed === 'null' ? '' : trimmed;
+}
+
+function isTruthyCell(value: string | undefined): boolean {
+  const normalized = cleanCell(value).toLowerCase();
+  // Count matrices mark presence with any positive quantity
+  return TRUTHY_CELLS.has(normalized) || Number(normalized) > 0;
+}
+
+// Without an id column, transactions are numbered by data row
+function transactionIdFor(row: string[], idColumn: number | null, rowIndex: number): string {
+  return idColumn === null ? String(rowIndex + 1) : cleanCell(row[idColumn]);
+}
+
+// Columns read as items by the wide and binary layouts
+function resolveItemColumns(mapping: ColumnMapping, columnCount: number): number[] {
+  const ignored = new Set(mapping.ignored_columns ?? []);
+  const candidates = mapping.item_columns ?? Array.from({ length: columnCount }, (_, column) => column);
+  return candidates.filter(column => column !== mapping.id_column && !ignored.has(column));
+}
+
+// Tallies rows as they are read; a row is too short when it ends before
+// its id column or before every item column
+class RowTally {
+  skippedRows: ReadSkippedRows = { no_id: 0, no_items: 0, too_short: 0 };
+  suspiciousValues = new Map<string, number>();
+
+  skipTooShort(row: string[], idColumn: number | null, itemColumns: number[]): boolean {
+    const tooShort = (idColumn !== null && row.length <= idColumn) || itemColumns.every(column => row.length <= column);
+    if (tooShort) {
+      this.skippedRows.too_short++;
+    }
+    return tooShort;
+  }
+
+  skip(reason: 'no_id' | 'no_items') {
+    this.skippedRows[reason]++;
+  }
+
+  // Reads an item cell, noting values that look like placeholders
+  itemCell(value: string | undefined): string {
+    const text = (value ?? '').trim();
+    if (SUSPICIOUS_CELLS.has(text.toLowerCase())) {
+      this.suspiciousValues.set(text, (this.suspiciousValues.get(text) ?? 0) + 1);
+    }
+    return cleanCell(text);
+  }
+}
+
+// One basket per row: the id column names the transaction and each non-empty
+// item cell is an item
+function collectWideBaskets(rows: string[][], idColumn: number | null, itemColumns: number[], tally: RowTally): Basket[] {
+  const baskets: Basket[] = [];
+
+  for (const [rowIndex, row] of rows.entries()) {
+    if (tally.skipTooShort(row, idColumn, itemColumns)) continue;
+
+    const transactionId = transactionIdFor(row, idColumn, rowIndex);
+    if (!transactionId) {
+      tally.skip('no_id');
+      continue;
+    }
+
+    const items = itemColumns
+      .map(column => tally.itemCell(row[column]))
+      .filter(item => item !== '');
+
+    if (items.length === 0) { // Skip transactions with no items
+      tally.skip('no_items');
+      continue;
+    }
+
+    baskets.push({ transaction_id: transactionId, items });
+  }
+
+  return baskets;
+}
+
+// One item per row: rows sharing a transaction id are merged into a single
+// basket, kept in the order each id first appears
+function collectLongBaskets(rows: string[][], idColumn: number, itemColumn: number, tally: RowTally): Basket[] {
+  const baskets = new Map<string, string[]>();
+
+  for (const row of rows) {
+    if (tally.skipTooShort(row, idColumn, [itemColumn])) continue;
+
+    const transactionId = cleanCell(row[idColumn]);
+    if (!transactionId) {
+      tally.skip('no_id');
+      continue;
+    }
+
+    const item = tally.itemCell(row[itemColumn]);
+    if (!item) {
+      tally.skip('no_items');
+      continue;
+    }
+
+    const items = baskets.get(transactionId);
+    if (items) {
+      items.push(item);
+    } else {
+      baskets.set(transactionId, [item]);
+    }
+  }
+
+  return Array.from(baskets, ([transaction_id, items]) => ({ transaction_id, items }));
+}
+
+// One basket per row of a presence matrix: each truthy cell contributes the
+// item named by its column
+function collectBinaryBaskets(
+  rows: string[][],
+  idColumn: number | null,
+  itemColumns: number[],
+  itemNames: string[],
+  tally: RowTally
+): Basket[] {
+  const baskets: Basket[] = [];
+
+  for (const [rowIndex, row] of rows.entries()) {
+    if (tally.skipTooShort(row, idColumn, itemColumns)) continue;
+
+    const transactionId = transactionIdFor(row, idColumn, rowIndex);
+    if (!transactionId) {
+      tally.skip('no_id');
+      continue;
+    }
+
+    const items = itemColumns
+      .filter(column => isTruthyCell(row[column]))
+      .map(column => itemNames[column]);
+
+    if (items.length === 0) { // Skip transactions with no items
+      tally.skip('no_items');
+      continue;
+    }
+
+    baskets.push({ transaction_id: transactionId, items });
+  }
+
+  return baskets;
+}
+
+export function collectBaskets(rows: string[][], mapping: ColumnMapping): BasketCollection {
+  // Binary matrices take item names from the header row
+  const hasHeader = mapping.has_header ?? true;
+  const header = hasHeader ? rows[0] ?? [] : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columnCount = rows.reduce((widest, row) => Math.max(widest, row.length), 0);
+  const tally = new RowTally();
+
+  let baskets: Basket[];
+  if (mapping.layout === 'long') {
+    const idColumn = mapping.id_column ?? 0;
+    baskets = collectLongBaskets(dataRows, idColumn, mapping.item_column ?? idColumn + 1, tally);
+  } else if (mapping.layout === 'binary') {
+    const itemNames = Array.from({ length: columnCount }, (_, column) =>
+      cleanCell(header[column]) || `Column ${column + 1}`
+    );
+    baskets = collectBinaryBaskets(dataRows, mapping.id_column, resolveItemColumns(mapping, columnCount), itemNames, tally);
+  } else {
+    baskets = collectWideBaskets(dataRows, mapping.id_column, resolveItemColumns(mapping, columnCount), tally);
+  }
+
+  return {
+    baskets,
+    rowsRead: dataRows.length,
+    skippedRows: tally.skippedRows,
+    suspiciousValues: tally.suspiciousValues
+  };
+}
@@ -0,0 +1,226 @@
+import { createReadStream } from 'fs';
+import { TextDecoder } from 'util';
+import { type CsvOptions, type CsvEncoding } from '../schema';
+
+// RFC 4180 CSV reading with delimiter, quote and encoding detection
+
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+  encoding: CsvEncoding;
+}
+
+export interface CsvReadResult {
+  rows: string[][];
+  dialect: CsvDialect;
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const DETECTION_SAMPLE_RECORDS = 50;
+const CHUNK_SIZE = 64 * 1024;
+
+// Incremental parser: feed decoded text in arbitrary chunks and collect the
+// records completed so far. Quoted fields may contain delimiters, line
+// breaks and doubled quotes; CRLF, LF and lone CR all end a record.
+export class CsvParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false; // quote seen inside a quoted field: escape or closing quote
+  private skipLineFeed = false; // previous record ended with CR
+  private records: string[][] = [];
+
+  constructor(private delimiter: string, private quote: string) {}
+
+  push(text: string): string[][] {
+    for (const char of text) {
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === this.quote) {
+            this.field += char;
+            continue;
+          }
+          this.inQuotes = false;
+          // Fall through: the character after a closing quote is read unquoted
+        } else if (char === this.quote) {
+          this.quotePending = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endRecord();
+        this.skipLineFeed = char === '\r';
+      } else if (char === this.quote && this.field.trim() === '') {
+        // Opening quote, tolerating whitespace before it
+        this.field = '';
+        this.inQuotes = true;
+      } else {
+        this.field += char;
+      }
+    }
+
+    return this.take();
+  }
+
+  end(): string[][] {
+    // An unterminated quoted field keeps whatever was read
+    this.inQuotes = false;
+    this.quotePending = false;
+    if (this.field !== '' || this.record.length > 0) {
+      this.endRecord();
+    }
+    return this.take();
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+  }
+
+  private endRecord() {
+    this.endField();
+    // Blank lines carry no data
+    if (!(this.record.length === 1 && this.record[0] === '')) {
+      this.records.push(this.record);
+    }
+    this.record = [];
+  }
+
+  private take(): string[][] {
+    const records = this.records;
+    this.records = [];
+    return records;
+  }
+}
+
+export function detectEncoding(sample: Buffer, isComplete: boolean): CsvEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  // UTF-16 without a byte order mark shows up as zero bytes next to ASCII text
+  let evenZeros = 0;
+  let oddZeros = 0;
+  const inspected = Math.min(sample.length, 4096);
+  for (let i = 0; i < inspected; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  if (oddZeros > inspected / 4 && evenZeros === 0) return 'utf-16le';
+  if (evenZeros > inspected / 4 && oddZeros === 0) return 'utf-16be';
+
+  // A truncated sample may end inside a multi-byte sequence
+  const checked = isComplete ? sample : sample.subarray(0, Math.max(0, sample.length - 3));
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(checked);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+export function detectDialect(sample: string, isComplete: boolean): Omit<CsvDialect, 'encoding'> {
+  let best = { delimiter: ',', score: 0 };
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const parser = new CsvParser(delimiter, '"');
+    let records = parser.push(sample);
+    if (isComplete) {
+      records = records.concat(parser.end());
+    }
+    records = records.slice(0, DETECTION_SAMPLE_RECORDS);
+    if (records.length === 0) continue;
+
+    // Basket files are ragged, so reward splitting most lines at all and
+    // then a consistent field count
+    const counts = records.map(record => record.length);
+    const multiField = counts.filter(count => count > 1).length / records.length;
+    const frequency = new Map<number, number>();
+    for (const count of counts) {
+      frequency.set(count, (frequency.get(count) ?? 0) + 1);
+    }
+    const consistency = Math.max(...frequency.values()) / records.length;
+    const score = multiField > 0 ? multiField * 2 + consistency : 0;
+
+    if (score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+
+  const escaped = best.delimiter === '\t' ? '\\t' : `\\${best.delimiter}`;
+  const fieldStart = (quote: string) =>
+    (sample.match(new RegExp(`(^|${escaped}|\\n)[ \\t]*${quote}`, 'g')) ?? []).length;
+  const quote = fieldStart('"') === 0 && fieldStart("'") > 0 ? "'" : '"';
+
+  return { delimiter: best.delimiter, quote };
+}
+
+// Streams a delimited text file, stopping early once `limit` records are read
+export async function readCsvFile(filePath: string, options: CsvOptions = {}, limit?: number): Promise<CsvReadResult> {
+  const stream = createReadStream(filePath, { highWaterMark: CHUNK_SIZE });
+  const rows: string[][] = [];
+  let dialect: CsvDialect | null = null;
+  let decoder: TextDecoder | null = null;
+  let parser: CsvParser | null = null;
+
+  const collect = (records: string[][]) => {
+    for (const record of records) {
+      if (limit !== undefined && rows.length >= limit) return;
+      rows.push(record);
+    }
+  };
+
+  try {
+    for await (const chunk of stream) {
+      const bytes = chunk as Buffer;
+
+      if (!decoder || !parser || !dialect) {
+        const isComplete = bytes.length < CHUNK_SIZE;
+        const encoding = options.encoding ?? detectEncoding(bytes, isComplete);
+        decoder = new TextDecoder(encoding);
+        const text = decoder.decode(bytes, { stream: true });
+        const detected = detectDialect(text, isComplete);
+        dialect = {
+          delimiter: options.delimiter ?? detected.delimiter,
+          quote: options.quote ?? detected.quote,
+          encoding
+        };
+        parser = new CsvParser(dialect.delimiter, dialect.quote);
+        collect(parser.push(text));
+      } else {
+        collect(parser.push(decoder.decode(bytes, { stream: true })));
+      }
+
+      if (limit !== undefined && rows.length >= limit) {
+        return { rows, dialect };
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  if (!decoder || !parser || !dialect) {
+    return {
+      rows,
+      dialect: { delimiter: options.delimiter ?? ',', quote: options.quote ?? '"', encoding: options.encoding ?? 'utf-8' }
+    };
+  }
+
+  collect(parser.push(decoder.decode()));
+  collect(parser.end());
+  return { rows, dialect };
+}
@@ -0,0 +1,64 @@
+import { type DuplicatePolicy } from '../schema';
+import { type Basket } from './baskets';
+
+export interface DeduplicatedBasket extends Basket {
+  quantities: Record<string, number>; // Occurrences of each item before deduplication
+}
+
+export interface DeduplicationResult<T extends Basket> {
+  baskets: (T & DeduplicatedBasket)[];
+  duplicateItemCount: number;
+  duplicateTransactionCount: number;
+}
+
+// Baskets only share an id within the same sheet
+function basketKey(basket: Basket & { sheet_name?: string | null }): string {
+  return JSON.stringify([basket.sheet_name ?? null, basket.transaction_id]);
+}
+
+// Resolves repeated transaction ids with the given policy, then stores each
+// item once per basket in order of first appearance, counting how often it
+// occurred
+export function deduplicateBaskets<T extends Basket & { sheet_name?: string | null }>(
+  baskets: T[],
+  policy: DuplicatePolicy
+): DeduplicationResult<T> {
+  const byKey = new Map<string, { basket: T; items: string[] }>();
+  let duplicateTransactionCount = 0;
+
+  for (const basket of baskets) {
+    const key = basketKey(basket);
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { basket, items: [...basket.items] });
+      continue;
+    }
+
+    if (policy === 'reject') {
+      throw new Error(`Transaction ID "${basket.transaction_id}" appears in more than one row`);
+    }
+
+    duplicateTransactionCount++;
+    if (policy === 'merge') {
+      existing.items.push(...basket.items);
+    }
+  }
+
+  let duplicateItemCount = 0;
+  const deduplicated = Array.from(byKey.values(), ({ basket, items }) => {
+    // A Map keeps first-appearance order even for numeric item names
+    const occurrences = new Map<string, number>();
+    for (const item of items) {
+      occurrences.set(item, (occurrences.get(item) ?? 0) + 1);
+    }
+
+    duplicateItemCount += items.length - occurrences.size;
+    return {
+      ...basket,
+      items: Array.from(occurrences.keys()),
+      quantities: Object.fromEntries(occurrences)
+    };
+  });
+
+  return { baskets: deduplicated, duplicateItemCount, duplicateTransactionCount };
+}
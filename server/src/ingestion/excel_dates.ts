@@ -0,0 +1,42 @@
+// Excel stores dates as serial day numbers and only marks them as dates
+// through the number format applied to the cell.
+
+// Built-in number format ids that render as dates or times
+const BUILTIN_DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22,
+  27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47,
+  50, 51, 52, 53, 54, 55, 56, 57, 58
+]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+export function isDateFormat(formatId: number, formatCode?: string): boolean {
+  if (formatCode === undefined) {
+    return BUILTIN_DATE_FORMAT_IDS.has(formatId);
+  }
+
+  const code = formatCode
+    .replace(/"[^"]*"/g, '') // quoted literals
+    .replace(/\\./g, '') // escaped characters
+    .replace(/\[(?!h\]|m\]|s\]|hh\]|mm\]|ss\])[^\]]*\]/gi, '') // colours, locales, conditions
+    .split(';')[0];
+
+  return /[ymdhs]/i.test(code) && !/^general$/i.test(code.trim());
+}
+
+export function excelSerialToDate(serial: number, date1904 = false): Date {
+  if (date1904) {
+    return new Date(EPOCH_1904 + Math.round(serial * 86400) * 1000);
+  }
+
+  // Serials before 1900-03-01 are shifted by Excel's fictitious 1900-02-29
+  const adjusted = serial < 60 ? serial + 1 : serial;
+  return new Date(EPOCH_1900 + Math.round(adjusted * 86400) * 1000);
+}
+
+export function isWholeDay(date: Date): boolean {
+  return date.getTime() % MS_PER_DAY === 0;
+}
@@ -0,0 +1,48 @@
+// Guesses whether the first row of a sheet is a header, in the spirit of
+// Python's csv.Sniffer.has_header: each column votes by comparing its
+// first cell with the cells below it.
+
+const HEADER_KEYWORDS = /\b(id|item|items|product|products|transaction|order|basket|invoice|sku|name|date|quantity|qty)\b/i;
+
+function isNumeric(value: string): boolean {
+  return value !== '' && !isNaN(Number(value));
+}
+
+export function detectHeader(rows: string[][]): boolean {
+  if (rows.length < 2) {
+    // A single row can't be compared against data; assume it is data
+    return false;
+  }
+
+  const [first, ...data] = rows;
+  const names = first.map(cell => cell.trim()).filter(cell => cell !== '');
+  if (names.length === 0 || new Set(names).size !== names.length) {
+    // Headers name their columns, and name them uniquely
+    return false;
+  }
+
+  let votes = 0;
+  for (const [column, rawName] of first.entries()) {
+    const name = rawName.trim();
+    if (name === '') continue;
+
+    const values = data
+      .map(row => (row[column] ?? '').trim())
+      .filter(value => value !== '');
+    if (values.length === 0) continue;
+
+    if (HEADER_KEYWORDS.test(name)) {
+      votes++;
+    } else if (isNumeric(name)) {
+      votes--;
+    } else if (values.every(isNumeric)) {
+      votes++;
+    } else if (values.includes(name)) {
+      // A repeated value reads as data, e.g. an item bought again
+      votes--;
+    }
+  }
+
+  // The historic behaviour skipped the first row, so ties favour a header
+  return votes >= 0;
+}
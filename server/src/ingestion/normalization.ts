@@ -0,0 +1,64 @@
+import { type NormalizationRules } from '../schema';
+import { type Basket } from './baskets';
+
+// Builds the item normalizer for a set of rules. The result of each step
+// feeds the next; an item normalized to an empty string is dropped.
+export function createItemNormalizer(rules: NormalizationRules): (item: string) => string {
+  const rewrites = (rules.rewrites ?? []).map(rule => ({
+    pattern: new RegExp(rule.pattern, `g${rule.flags ?? ''}`),
+    replacement: rule.replacement
+  }));
+
+  const normalizeForm = (item: string): string => {
+    let value = item;
+    if (rules.unicode) {
+      value = value.normalize(rules.unicode);
+    }
+    if (rules.collapse_whitespace) {
+      value = value.replace(/\s+/g, ' ');
+    }
+    for (const rewrite of rewrites) {
+      value = value.replace(rewrite.pattern, rewrite.replacement);
+    }
+    if (rules.case === 'lower') {
+      value = value.toLowerCase();
+    } else if (rules.case === 'upper') {
+      value = value.toUpperCase();
+    }
+    return value.trim();
+  };
+
+  // Synonym variants are matched in normalized form
+  const synonyms = new Map<string, string>();
+  for (const [variant, canonical] of Object.entries(rules.synonyms ?? {})) {
+    synonyms.set(normalizeForm(variant), canonical.trim());
+  }
+
+  return (item: string) => {
+    const value = normalizeForm(item);
+    return synonyms.get(value) ?? value;
+  };
+}
+
+export interface NormalizationResult<T extends Basket> {
+  baskets: T[];
+  emptiedBasketCount: number; // Baskets dropped because no item was left
+}
+
+// Applies the rules to every basket, dropping items that normalize to
+// nothing and baskets left empty
+export function normalizeBaskets<T extends Basket>(baskets: T[], rules: NormalizationRules | null): NormalizationResult<T> {
+  if (!rules) {
+    return { baskets, emptiedBasketCount: 0 };
+  }
+
+  const normalize = createItemNormalizer(rules);
+  const normalized = baskets
+    .map(basket => ({
+      ...basket,
+      items: basket.items.map(normalize).filter(item => item !== '')
+    }))
+    .filter(basket => basket.items.length > 0);
+
+  return { baskets: normalized, emptiedBasketCount: baskets.length - normalized.length };
+}
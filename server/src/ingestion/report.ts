@@ -0,0 +1,54 @@
+import { type IngestionReport } from '../schema';
+import { type Basket, type BasketCollection } from './baskets';
+import { type DeduplicationResult } from './deduplication';
+
+export type IngestionReportContent = Omit<IngestionReport, 'id' | 'file_upload_id' | 'created_at'>;
+
+const TOP_ITEM_COUNT = 10;
+
+// Sorts tallies by count, most frequent first, then by key
+function sortedCounts(counts: Map<string, number>): [string, number][] {
+  return Array.from(counts).sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+}
+
+// Summarizes a processing run from the collected sheets, the baskets
+// emptied by normalization and the baskets about to be stored
+export function buildIngestionReport(
+  collections: BasketCollection[],
+  emptiedBasketCount: number,
+  deduplication: DeduplicationResult<Basket>
+): IngestionReportContent {
+  const { baskets } = deduplication;
+
+  const skippedRows = { no_id: 0, no_items: 0, too_short: 0, emptied_by_normalization: emptiedBasketCount };
+  const suspiciousValues = new Map<string, number>();
+  for (const collection of collections) {
+    skippedRows.no_id += collection.skippedRows.no_id;
+    skippedRows.no_items += collection.skippedRows.no_items;
+    skippedRows.too_short += collection.skippedRows.too_short;
+    for (const [value, count] of collection.suspiciousValues) {
+      suspiciousValues.set(value, (suspiciousValues.get(value) ?? 0) + count);
+    }
+  }
+
+  const basketSizes = new Map<number, number>();
+  const itemCounts = new Map<string, number>();
+  for (const basket of baskets) {
+    basketSizes.set(basket.items.length, (basketSizes.get(basket.items.length) ?? 0) + 1);
+    for (const item of basket.items) {
+      itemCounts.set(item, (itemCounts.get(item) ?? 0) + 1);
+    }
+  }
+
+  return {
+    rows_read: collections.reduce((total, collection) => total + collection.rowsRead, 0),
+    skipped_rows: skippedRows,
+    transaction_count: baskets.length,
+    duplicate_transaction_count: deduplication.duplicateTransactionCount,
+    duplicate_item_count: deduplication.duplicateItemCount,
+    distinct_item_count: itemCounts.size,
+    basket_sizes: Array.from(basketSizes, ([size, count]) => ({ size, count })).sort((a, b) => a.size - b.size),
+    top_items: sortedCounts(itemCounts).slice(0, TOP_ITEM_COUNT).map(([item, count]) => ({ item, count })),
+    suspicious_values: sortedCounts(suspiciousValues).map(([value, count]) => ({ value, count }))
+  };
+}
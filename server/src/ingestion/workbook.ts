@@ -0,0 +1,107 @@
+import { ZipArchive } from './zip';
+import { readXlsx } from './xlsx_reader';
+import { isCompoundFile, readXls } from './xls_reader';
+import { readCsvFile } from './csv_reader';
+import { isWholeDay } from './excel_dates';
+import { type CsvOptions, type SheetSelection } from '../schema';
+import { open, readFile } from 'fs/promises';
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface Sheet {
+  name: string;
+  rows: CellValue[][];
+}
+
+export interface Workbook {
+  format: 'xlsx' | 'xls' | 'csv';
+  sheets: Sheet[];
+}
+
+// Detects the file format from its content rather than its name, since
+// uploads are frequently renamed or served with generic mime types.
+// Delimited text files are streamed (stopping after `rowLimit` rows);
+// workbooks are read whole.
+export async function loadWorkbook(filePath: string, csvOptions: CsvOptions = {}, rowLimit?: number): Promise<Workbook> {
+  const handle = await open(filePath, 'r');
+  let signature: Buffer;
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) {
+      throw new Error('File is empty');
+    }
+    signature = Buffer.alloc(Math.min(size, 8));
+    await handle.read(signature, 0, signature.length, 0);
+  } finally {
+    await handle.close();
+  }
+
+  if (ZipArchive.isZip(signature)) {
+    return limitRows(readXlsx(await readFile(filePath)), rowLimit);
+  }
+  if (isCompoundFile(signature)) {
+    return limitRows(readXls(await readFile(filePath)), rowLimit);
+  }
+
+  const { rows } = await readCsvFile(filePath, csvOptions, rowLimit);
+  return {
+    format: 'csv',
+    sheets: [{ name: 'Sheet1', rows }]
+  };
+}
+
+// Picks the sheets to read, in workbook order; without a selection only the
+// first sheet is read
+export function selectSheets(workbook: Workbook, selection: SheetSelection | null): Sheet[] {
+  if (selection === null) {
+    return workbook.sheets.slice(0, 1);
+  }
+  if (selection === 'all') {
+    return workbook.sheets;
+  }
+
+  const available = new Set(workbook.sheets.map(sheet => sheet.name));
+  const missing = selection.filter(name => !available.has(name));
+  if (missing.length > 0) {
+    throw new Error(`Sheet not found in workbook: ${missing.join(', ')}`);
+  }
+
+  const wanted = new Set(selection);
+  return workbook.sheets.filter(sheet => wanted.has(sheet.name));
+}
+
+function limitRows(workbook: Workbook, rowLimit?: number): Workbook {
+  if (rowLimit === undefined) {
+    return workbook;
+  }
+  return {
+    ...workbook,
+    sheets: workbook.sheets.map(sheet => ({ ...sheet, rows: sheet.rows.slice(0, rowLimit) }))
+  };
+}
+
+// Converts a sheet's cells to text, dropping rows with no content
+export function toTextRows(rows: CellValue[][]): string[][] {
+  return rows
+    .map(row => row.map(cell => cellToString(cell)))
+    .filter(row => row.some(cell => cell.trim()));
+}
+
+// Converts a typed cell into the string form stored in transactions
+export function cellToString(value: CellValue): string {
+  if (value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return isWholeDay(value) ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+  }
+  if (typeof value === 'number') {
+    // Excel keeps 15 significant digits; drop binary floating point noise
+    return String(Number(value.toPrecision(15)));
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return value;
+}
@@ -0,0 +1,398 @@
+import { isDateFormat, excelSerialToDate } from './excel_dates';
+import { type CellValue, type Sheet, type Workbook } from './workbook';
+
+// Reader for legacy Excel 97-2003 (BIFF8) and Excel 5/95 (BIFF5) workbooks,
+// stored inside an OLE2 compound file.
+
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+
+// BIFF record types
+const BOF = 0x0809;
+const EOF = 0x000a;
+const BOUNDSHEET = 0x0085;
+const SST = 0x00fc;
+const CONTINUE = 0x003c;
+const LABELSST = 0x00fd;
+const LABEL = 0x0204;
+const RSTRING = 0x00d6;
+const NUMBER = 0x0203;
+const RK = 0x027e;
+const MULRK = 0x00bd;
+const BOOLERR = 0x0205;
+const FORMULA = 0x0006;
+const STRING = 0x0207;
+const XF = 0x00e0;
+const FORMAT = 0x041e;
+const DATEMODE = 0x0022;
+const FILEPASS = 0x002f;
+
+const BIFF8_VERSION = 0x0600;
+
+interface BiffRecord {
+  type: number;
+  offset: number; // offset of the record header within the stream
+  data: Buffer;
+}
+
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.subarray(0, 8).equals(CFB_SIGNATURE);
+}
+
+export function readXls(buffer: Buffer): Workbook {
+  const stream = readCompoundFileStream(buffer, ['Workbook', 'Book']);
+  return readBiffWorkbook(stream);
+}
+
+// Compound File Binary container
+
+function readCompoundFileStream(buffer: Buffer, streamNames: string[]): Buffer {
+  if (!isCompoundFile(buffer)) {
+    throw new Error('Not a legacy Excel file: compound file signature missing');
+  }
+
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+  const fatSectorCount = buffer.readUInt32LE(0x2c);
+  const firstDirectorySector = buffer.readUInt32LE(0x30);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+  let difatSector = buffer.readUInt32LE(0x44);
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  // Collect FAT sector locations from the header and the DIFAT chain
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109 && fatSectors.length < fatSectorCount; i++) {
+    fatSectors.push(buffer.readUInt32LE(0x4c + i * 4));
+  }
+  const entriesPerSector = sectorSize / 4;
+  let difatGuard = 0;
+  while (fatSectors.length < fatSectorCount && difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR) {
+    if (difatGuard++ > 1_000_000) throw new Error('Corrupt compound file: DIFAT loop');
+    const offset = sectorOffset(difatSector);
+    for (let i = 0; i < entriesPerSector - 1 && fatSectors.length < fatSectorCount; i++) {
+      fatSectors.push(buffer.readUInt32LE(offset + i * 4));
+    }
+    difatSector = buffer.readUInt32LE(offset + (entriesPerSector - 1) * 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const offset = sectorOffset(sector);
+    for (let i = 0; i < entriesPerSector; i++) {
+      fat.push(buffer.readUInt32LE(offset + i * 4));
+    }
+  }
+
+  const readChain = (table: number[], start: number): number[] => {
+    const chain: number[] = [];
+    let sector = start;
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECTOR) {
+      if (sector >= table.length || chain.length > table.length) {
+        throw new Error('Corrupt compound file: broken sector chain');
+      }
+      chain.push(sector);
+      sector = table[sector];
+    }
+    return chain;
+  };
+
+  const readRegularStream = (start: number, size?: number): Buffer => {
+    const chunks = readChain(fat, start).map(sector =>
+      buffer.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize)
+    );
+    const data = Buffer.concat(chunks);
+    return size === undefined ? data : data.subarray(0, size);
+  };
+
+  // Directory entries are 128 bytes each
+  const directory = readRegularStream(firstDirectorySector);
+  interface DirectoryEntry { name: string; type: number; start: number; size: number }
+  const entries: DirectoryEntry[] = [];
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = directory.readUInt16LE(offset + 0x40);
+    entries.push({
+      name: directory.toString('utf16le', offset, offset + Math.max(0, nameLength - 2)),
+      type: directory[offset + 0x42],
+      start: directory.readUInt32LE(offset + 0x74),
+      size: directory.readUInt32LE(offset + 0x78)
+    });
+  }
+
+  const root = entries.find(entry => entry.type === 5);
+  const wanted = streamNames.map(name => name.toLowerCase());
+  const entry = entries.find(e => e.type === 2 && wanted.includes(e.name.toLowerCase()));
+  if (!root || !entry) {
+    throw new Error('Not an Excel workbook: workbook stream not found');
+  }
+
+  if (entry.size >= miniStreamCutoff) {
+    return readRegularStream(entry.start, entry.size);
+  }
+
+  // Small streams live in the mini stream, addressed through the mini FAT
+  const miniFatBytes = firstMiniFatSector === END_OF_CHAIN ? Buffer.alloc(0) : readRegularStream(firstMiniFatSector);
+  const miniFat: number[] = [];
+  for (let offset = 0; offset + 4 <= miniFatBytes.length; offset += 4) {
+    miniFat.push(miniFatBytes.readUInt32LE(offset));
+  }
+  const miniStream = readRegularStream(root.start, root.size);
+  const chunks = readChain(miniFat, entry.start).map(sector =>
+    miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize)
+  );
+  return Buffer.concat(chunks).subarray(0, entry.size);
+}
+
+// BIFF record stream
+
+function readRecords(stream: Buffer, start: number): BiffRecord[] {
+  const records: BiffRecord[] = [];
+  let offset = start;
+  while (offset + 4 <= stream.length) {
+    const type = stream.readUInt16LE(offset);
+    const length = stream.readUInt16LE(offset + 2);
+    const data = stream.subarray(offset + 4, offset + 4 + length);
+    records.push({ type, offset, data });
+    offset += 4 + length;
+    if (type === EOF) break;
+  }
+  return records;
+}
+
+// Record data plus any CONTINUE records that follow it
+function withContinuations(records: BiffRecord[], index: number): Buffer[] {
+  const segments = [records[index].data];
+  for (let i = index + 1; i < records.length && records[i].type === CONTINUE; i++) {
+    segments.push(records[i].data);
+  }
+  return segments;
+}
+
+function decodeRk(rk: number): number {
+  let value: number;
+  if (rk & 0x02) {
+    value = rk >> 2; // signed 30-bit integer
+  } else {
+    const bytes = Buffer.alloc(8);
+    bytes.writeUInt32LE((rk & 0xfffffffc) >>> 0, 4);
+    value = bytes.readDoubleLE(0);
+  }
+  return rk & 0x01 ? value / 100 : value;
+}
+
+// Cursor over a record split into CONTINUE segments. Character data that
+// crosses a segment boundary restarts with a fresh option flags byte.
+class SegmentReader {
+  private segment = 0;
+  private position = 0;
+
+  constructor(private segments: Buffer[]) {}
+
+  private ensure() {
+    while (this.segment < this.segments.length && this.position >= this.segments[this.segment].length) {
+      this.segment++;
+      this.position = 0;
+    }
+    if (this.segment >= this.segments.length) {
+      throw new Error('Corrupt workbook: unexpected end of string table');
+    }
+  }
+
+  private atSegmentEnd(): boolean {
+    return this.position >= this.segments[this.segment].length;
+  }
+
+  uint8(): number {
+    this.ensure();
+    return this.segments[this.segment][this.position++];
+  }
+
+  uint16(): number {
+    return this.uint8() | (this.uint8() << 8);
+  }
+
+  int32(): number {
+    return (this.uint16() | (this.uint16() << 16)) | 0;
+  }
+
+  skip(bytes: number) {
+    for (let i = 0; i < bytes; i++) this.uint8();
+  }
+
+  characters(count: number, wide: boolean): string {
+    let text = '';
+    let highByte = wide;
+    for (let i = 0; i < count; i++) {
+      if (this.atSegmentEnd() && this.segment + 1 < this.segments.length) {
+        this.segment++;
+        this.position = 0;
+        highByte = (this.uint8() & 0x01) === 1;
+      }
+      text += String.fromCharCode(highByte ? this.uint16() : this.uint8());
+    }
+    return text;
+  }
+
+  // XLUnicodeRichExtendedString
+  richString(): string {
+    const count = this.uint16();
+    const flags = this.uint8();
+    const runs = flags & 0x08 ? this.uint16() : 0;
+    const extensionSize = flags & 0x04 ? this.int32() : 0;
+    const text = this.characters(count, (flags & 0x01) === 1);
+    this.skip(runs * 4 + extensionSize);
+    return text;
+  }
+}
+
+function readSharedStringTable(segments: Buffer[]): string[] {
+  const reader = new SegmentReader(segments);
+  reader.int32(); // total references
+  const uniqueCount = reader.int32();
+  const strings: string[] = [];
+  for (let i = 0; i < uniqueCount; i++) {
+    strings.push(reader.richString());
+  }
+  return strings;
+}
+
+// Strings stored inline in a single record (LABEL, STRING, FORMAT, BOUNDSHEET)
+function readInlineString(data: Buffer, offset: number, biff8: boolean, lengthBytes: 1 | 2): string {
+  const count = lengthBytes === 1 ? data[offset] : data.readUInt16LE(offset);
+  let position = offset + lengthBytes;
+  if (!biff8) {
+    return data.toString('latin1', position, position + count);
+  }
+  const flags = data[position++];
+  if (flags & 0x08) position += 2;
+  if (flags & 0x04) position += 4;
+  return flags & 0x01
+    ? data.toString('utf16le', position, position + count * 2)
+    : data.toString('latin1', position, position + count);
+}
+
+function readBiffWorkbook(stream: Buffer): Workbook {
+  const globals = readRecords(stream, 0);
+  if (globals.length === 0 || globals[0].type !== BOF) {
+    throw new Error('Unsupported Excel file: only BIFF5 and BIFF8 workbooks can be read');
+  }
+  const biff8 = globals[0].data.readUInt16LE(0) === BIFF8_VERSION;
+
+  let sharedStrings: string[] = [];
+  let date1904 = false;
+  const formats = new Map<number, string>();
+  const xfFormats: number[] = [];
+  const boundSheets: { name: string; offset: number }[] = [];
+
+  for (let i = 0; i < globals.length; i++) {
+    const { type, data } = globals[i];
+    switch (type) {
+      case FILEPASS:
+        throw new Error('Encrypted workbooks are not supported');
+      case SST:
+        sharedStrings = readSharedStringTable(withContinuations(globals, i));
+        break;
+      case DATEMODE:
+        date1904 = data.readUInt16LE(0) === 1;
+        break;
+      case FORMAT:
+        formats.set(data.readUInt16LE(0), readInlineString(data, 2, biff8, biff8 ? 2 : 1));
+        break;
+      case XF:
+        xfFormats.push(data.readUInt16LE(2));
+        break;
+      case BOUNDSHEET: {
+        const sheetType = data[5];
+        if (sheetType === 0x00) {
+          boundSheets.push({
+            offset: data.readUInt32LE(0),
+            name: readInlineString(data, 6, biff8, 1)
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  const dateXfs = new Set<number>();
+  xfFormats.forEach((formatId, index) => {
+    if (isDateFormat(formatId, formats.get(formatId))) {
+      dateXfs.add(index);
+    }
+  });
+
+  const numberCell = (value: number, xf: number): CellValue =>
+    dateXfs.has(xf) ? excelSerialToDate(value, date1904) : value;
+
+  const sheets: Sheet[] = boundSheets.map(({ name, offset }) => {
+    const rows: CellValue[][] = [];
+    const setCell = (row: number, col: number, value: CellValue) => {
+      while (rows.length <= row) rows.push([]);
+      const cells = rows[row];
+      while (cells.length < col) cells.push(null);
+      cells[col] = value;
+    };
+
+    const records = readRecords(stream, offset);
+    for (let i = 0; i < records.length; i++) {
+      const { type, data } = records[i];
+      switch (type) {
+        case LABELSST:
+          setCell(data.readUInt16LE(0), data.readUInt16LE(2), sharedStrings[data.readUInt32LE(6)] ?? null);
+          break;
+        case LABEL:
+        case RSTRING:
+          setCell(data.readUInt16LE(0), data.readUInt16LE(2), readInlineString(data, 6, biff8, 2));
+          break;
+        case NUMBER:
+          setCell(data.readUInt16LE(0), data.readUInt16LE(2), numberCell(data.readDoubleLE(6), data.readUInt16LE(4)));
+          break;
+        case RK:
+          setCell(data.readUInt16LE(0), data.readUInt16LE(2), numberCell(decodeRk(data.readUInt32LE(6)), data.readUInt16LE(4)));
+          break;
+        case MULRK: {
+          const row = data.readUInt16LE(0);
+          const firstCol = data.readUInt16LE(2);
+          const count = (data.length - 6) / 6;
+          for (let j = 0; j < count; j++) {
+            const xf = data.readUInt16LE(4 + j * 6);
+            const rk = data.readUInt32LE(6 + j * 6);
+            setCell(row, firstCol + j, numberCell(decodeRk(rk), xf));
+          }
+          break;
+        }
+        case BOOLERR:
+          // Error cells (second flag byte set) carry no usable value
+          setCell(data.readUInt16LE(0), data.readUInt16LE(2), data[7] === 0 ? data[6] === 1 : null);
+          break;
+        case FORMULA: {
+          const row = data.readUInt16LE(0);
+          const col = data.readUInt16LE(2);
+          const xf = data.readUInt16LE(4);
+          if (data.readUInt16LE(12) !== 0xffff) {
+            setCell(row, col, numberCell(data.readDoubleLE(6), xf));
+          } else if (data[6] === 0x00) {
+            // String result is stored in the STRING record that follows
+            const next = records.slice(i + 1, i + 4).find(r => r.type === STRING);
+            setCell(row, col, next ? readInlineString(next.data, 0, biff8, 2) : null);
+          } else if (data[6] === 0x01) {
+            setCell(row, col, data[8] === 1);
+          } else if (data[6] === 0x03) {
+            setCell(row, col, '');
+          }
+          break;
+        }
+      }
+    }
+
+    return { name, rows };
+  });
+
+  if (sheets.length === 0) {
+    throw new Error('Workbook contains no worksheets');
+  }
+
+  return { format: 'xls', sheets };
+}
@@ -0,0 +1,243 @@
+import { ZipArchive } from './zip';
+import { elements, firstElement, textContent, decodeXmlEntities } from './xml';
+import { isDateFormat, excelSerialToDate } from './excel_dates';
+import { type CellValue, type Sheet, type Workbook } from './workbook';
+
+// Reader for Office Open XML spreadsheets (.xlsx / .xlsm)
+
+interface StyleInfo {
+  dateStyles: Set<number>; // indexes into cellXfs that format numbers as dates
+}
+
+export function readXlsx(buffer: Buffer): Workbook {
+  const archive = new ZipArchive(buffer);
+
+  const workbookPath = findWorkbookPath(archive);
+  const workbookXml = archive.readText(workbookPath);
+  const relationships = readRelationships(archive, workbookPath);
+
+  const workbookPr = firstElement(workbookXml, 'workbookPr');
+  const date1904Flag = workbookPr?.attributes['date1904'];
+  const date1904 = date1904Flag === '1' || date1904Flag === 'true';
+
+  const sharedStrings = readSharedStrings(archive, workbookPath, relationships);
+  const styles = readStyles(archive, workbookPath, relationships);
+
+  const sheets: Sheet[] = [];
+  for (const sheet of elements(workbookXml, 'sheet')) {
+    const relationshipId = Object.entries(sheet.attributes)
+      .find(([name]) => /(^|:)id$/.test(name))?.[1];
+    const target = relationshipId ? relationships.get(relationshipId) : undefined;
+    if (!target) continue;
+
+    const partPath = resolvePartPath(workbookPath, target.target);
+    if (!archive.has(partPath)) continue;
+
+    sheets.push({
+      name: sheet.attributes['name'] ?? `Sheet${sheets.length + 1}`,
+      rows: readSheetRows(archive.readText(partPath), sharedStrings, styles, date1904)
+    });
+  }
+
+  if (sheets.length === 0) {
+    throw new Error('Workbook contains no worksheets');
+  }
+
+  return { format: 'xlsx', sheets };
+}
+
+function findWorkbookPath(archive: ZipArchive): string {
+  if (archive.has('_rels/.rels')) {
+    for (const relationship of elements(archive.readText('_rels/.rels'), 'Relationship')) {
+      if (relationship.attributes['Type']?.endsWith('/officeDocument')) {
+        return resolvePartPath('', relationship.attributes['Target'] ?? '');
+      }
+    }
+  }
+  if (archive.has('xl/workbook.xml')) {
+    return 'xl/workbook.xml';
+  }
+  throw new Error('Not a spreadsheet: workbook part not found');
+}
+
+function readRelationships(archive: ZipArchive, partPath: string): Map<string, { type: string; target: string }> {
+  const directory = partPath.includes('/') ? partPath.slice(0, partPath.lastIndexOf('/') + 1) : '';
+  const fileName = partPath.slice(directory.length);
+  const relsPath = `${directory}_rels/${fileName}.rels`;
+
+  const relationships = new Map<string, { type: string; target: string }>();
+  if (!archive.has(relsPath)) return relationships;
+
+  for (const relationship of elements(archive.readText(relsPath), 'Relationship')) {
+    const id = relationship.attributes['Id'];
+    if (id) {
+      relationships.set(id, {
+        type: relationship.attributes['Type'] ?? '',
+        target: relationship.attributes['Target'] ?? ''
+      });
+    }
+  }
+  return relationships;
+}
+
+// Relationship targets are relative to the source part unless they start with '/'
+function resolvePartPath(sourcePath: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+
+  const segments = sourcePath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function findRelatedPart(
+  workbookPath: string,
+  relationships: Map<string, { type: string; target: string }>,
+  typeSuffix: string,
+  fallback: string
+): string {
+  for (const { type, target } of relationships.values()) {
+    if (type.endsWith(typeSuffix)) {
+      return resolvePartPath(workbookPath, target);
+    }
+  }
+  return fallback;
+}
+
+function readSharedStrings(
+  archive: ZipArchive,
+  workbookPath: string,
+  relationships: Map<string, { type: string; target: string }>
+): string[] {
+  const path = findRelatedPart(workbookPath, relationships, '/sharedStrings', 'xl/sharedStrings.xml');
+  if (!archive.has(path)) return [];
+
+  const strings: string[] = [];
+  for (const item of elements(archive.readText(path), 'si')) {
+    strings.push(textContent(item.body ?? ''));
+  }
+  return strings;
+}
+
+function readStyles(
+  archive: ZipArchive,
+  workbookPath: string,
+  relationships: Map<string, { type: string; target: string }>
+): StyleInfo {
+  const dateStyles = new Set<number>();
+  const path = findRelatedPart(workbookPath, relationships, '/styles', 'xl/styles.xml');
+  if (!archive.has(path)) return { dateStyles };
+
+  const stylesXml = archive.readText(path);
+
+  const customFormats = new Map<number, string>();
+  for (const format of elements(stylesXml, 'numFmt')) {
+    const id = parseInt(format.attributes['numFmtId'] ?? '', 10);
+    if (!isNaN(id)) {
+      customFormats.set(id, format.attributes['formatCode'] ?? '');
+    }
+  }
+
+  const cellXfs = firstElement(stylesXml, 'cellXfs');
+  let index = 0;
+  for (const xf of elements(cellXfs?.body ?? '', 'xf')) {
+    const formatId = parseInt(xf.attributes['numFmtId'] ?? '0', 10);
+    if (isDateFormat(formatId, customFormats.get(formatId))) {
+      dateStyles.add(index);
+    }
+    index++;
+  }
+
+  return { dateStyles };
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function readSheetRows(
+  sheetXml: string,
+  sharedStrings: string[],
+  styles: StyleInfo,
+  date1904: boolean
+): CellValue[][] {
+  const rows: CellValue[][] = [];
+  const sheetData = firstElement(sheetXml, 'sheetData');
+
+  for (const row of elements(sheetData?.body ?? '', 'row')) {
+    const rowNumber = parseInt(row.attributes['r'] ?? '', 10);
+    const rowIndex = isNaN(rowNumber) ? rows.length : rowNumber - 1;
+    const cells: CellValue[] = [];
+
+    for (const cell of elements(row.body ?? '', 'c')) {
+      const reference = cell.attributes['r'];
+      const colIndex = reference ? columnIndex(reference) : cells.length;
+      const value = readCellValue(cell.attributes, cell.body ?? '', sharedStrings, styles, date1904);
+
+      while (cells.length < colIndex) cells.push(null);
+      cells[colIndex] = value;
+    }
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  }
+
+  return rows;
+}
+
+function readCellValue(
+  attributes: Record<string, string>,
+  body: string,
+  sharedStrings: string[],
+  styles: StyleInfo,
+  date1904: boolean
+): CellValue {
+  const type = attributes['t'] ?? 'n';
+  const valueElement = firstElement(body, 'v');
+  const rawValue = valueElement?.body != null ? decodeXmlEntities(valueElement.body) : null;
+
+  switch (type) {
+    case 's': {
+      if (rawValue === null) return null;
+      return sharedStrings[parseInt(rawValue, 10)] ?? null;
+    }
+    case 'inlineStr': {
+      const inline = firstElement(body, 'is');
+      return inline ? textContent(inline.body ?? '') : null;
+    }
+    case 'str':
+      return rawValue;
+    case 'b':
+      return rawValue === null ? null : rawValue === '1' || rawValue === 'true';
+    case 'e':
+      return null;
+    case 'd': {
+      if (rawValue === null) return null;
+      const date = new Date(rawValue);
+      return isNaN(date.getTime()) ? rawValue : date;
+    }
+    default: {
+      if (rawValue === null || rawValue.trim() === '') return null;
+      const number = Number(rawValue);
+      if (isNaN(number)) return rawValue;
+
+      const styleIndex = parseInt(attributes['s'] ?? '0', 10);
+      if (styles.dateStyles.has(styleIndex)) {
+        return excelSerialToDate(number, date1904);
+      }
+      return number;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+// Lightweight helpers for the small, well-formed XML parts found in
+// spreadsheet packages. These are not a general purpose XML parser.
+
+export interface XmlElement {
+  attributes: Record<string, string>;
+  body: string | null; // null for self-closing elements
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+// Iterates over every <tag> element (with or without a namespace prefix) in document order
+export function* elements(xml: string, tag: string): Generator<XmlElement> {
+  const name = `(?:[\\w.-]+:)?${tag}`;
+  const pattern = new RegExp(`<${name}(?=[\\s/>])([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${name}>)`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    yield {
+      attributes: parseAttributes(match[1]),
+      body: match[2] ?? null
+    };
+  }
+}
+
+export function firstElement(xml: string, tag: string): XmlElement | null {
+  const result = elements(xml, tag).next();
+  return result.done ? null : result.value;
+}
+
+// Concatenated text of all <t> runs, ignoring phonetic hints (<rPh>)
+export function textContent(xml: string): string {
+  const withoutPhonetics = xml.replace(/<(?:[\w.-]+:)?rPh\b[\s\S]*?<\/(?:[\w.-]+:)?rPh>/g, '');
+  let text = '';
+  for (const element of elements(withoutPhonetics, 't')) {
+    text += decodeXmlEntities(element.body ?? '');
+  }
+  return text;
+}
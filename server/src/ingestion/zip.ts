@@ -0,0 +1,116 @@
+import { inflateRawSync } from 'zlib';
+
+// Minimal reader for the ZIP container used by OOXML (.xlsx) files.
+// Only the features Excel actually writes are supported: stored and
+// deflated entries described by the central directory.
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(private buffer: Buffer) {
+    this.readCentralDirectory();
+  }
+
+  static isZip(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER_SIGNATURE;
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(normalizeEntryName(name));
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  read(name: string): Buffer {
+    const entry = this.entries.get(normalizeEntryName(name));
+    if (!entry) {
+      throw new Error(`Archive entry ${name} not found`);
+    }
+
+    const offset = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt archive: bad local header for ${name}`);
+    }
+
+    // Local header lengths may differ from the central directory ones
+    const nameLength = this.buffer.readUInt16LE(offset + 26);
+    const extraLength = this.buffer.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) {
+      return data;
+    }
+    if (entry.method === METHOD_DEFLATED) {
+      return inflateRawSync(data);
+    }
+    throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+  }
+
+  readText(name: string): string {
+    return this.read(name).toString('utf-8');
+  }
+
+  private readCentralDirectory() {
+    const eocdOffset = this.findEndOfCentralDirectory();
+    const entryCount = this.buffer.readUInt16LE(eocdOffset + 10);
+    let offset = this.buffer.readUInt32LE(eocdOffset + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (this.buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error('Corrupt archive: bad central directory entry');
+      }
+
+      const method = this.buffer.readUInt16LE(offset + 10);
+      const compressedSize = this.buffer.readUInt32LE(offset + 20);
+      const uncompressedSize = this.buffer.readUInt32LE(offset + 24);
+      const nameLength = this.buffer.readUInt16LE(offset + 28);
+      const extraLength = this.buffer.readUInt16LE(offset + 30);
+      const commentLength = this.buffer.readUInt16LE(offset + 32);
+      const localHeaderOffset = this.buffer.readUInt32LE(offset + 42);
+      const name = this.buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      this.entries.set(normalizeEntryName(name), {
+        name,
+        method,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  private findEndOfCentralDirectory(): number {
+    // The record is 22 bytes plus an optional comment of up to 64KB
+    const minOffset = Math.max(0, this.buffer.length - 22 - 0xffff);
+    for (let offset = this.buffer.length - 22; offset >= minOffset; offset--) {
+      if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        return offset;
+      }
+    }
+    throw new Error('Corrupt archive: end of central directory not found');
+  }
+}
+
+function normalizeEntryName(name: string): string {
+  return name.replace(/\\/g, '/').replace(/^\/+/, '').toLowerCase();
+}
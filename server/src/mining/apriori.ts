@@ -0,0 +1,58 @@
+import { type ItemsetCount, type MiningAlgorithm } from './types';
+
+// Joins frequent k-itemsets that share k-1 items into (k+1)-candidates
+function generateCandidates(frequentItemsets: string[][]): string[][] {
+  const candidates = new Map<string, string[]>();
+
+  for (let i = 0; i < frequentItemsets.length; i++) {
+    for (let j = i + 1; j < frequentItemsets.length; j++) {
+      const itemset1 = frequentItemsets[i];
+      const itemset2 = frequentItemsets[j];
+
+      const newCandidate = [...new Set([...itemset1, ...itemset2])].sort();
+      if (newCandidate.length === itemset1.length + 1) {
+        candidates.set(newCandidate.join('\u0000'), newCandidate);
+      }
+    }
+  }
+
+  return Array.from(candidates.values());
+}
+
+// Breadth-first: count each level's candidates with a pass over the
+// transactions, then join the frequent ones into the next level
+function apriori(transactions: string[][], minSupportCount: number, maxLength = Infinity): ItemsetCount[] {
+  const transactionSets = transactions.map(transaction => new Set(transaction));
+  const allItems = new Set(transactions.flat());
+
+  const frequentItemsets: ItemsetCount[] = [];
+  let candidateItemsets: string[][] = Array.from(allItems).sort().map(item => [item]);
+
+  // Each level's candidates are one item longer than the last's
+  while (candidateItemsets.length > 0 && candidateItemsets[0].length <= maxLength) {
+    const levelItemsets: ItemsetCount[] = [];
+
+    for (const candidate of candidateItemsets) {
+      let count = 0;
+      for (const transaction of transactionSets) {
+        if (candidate.every(item => transaction.has(item))) {
+          count++;
+        }
+      }
+
+      if (count >= minSupportCount) {
+        levelItemsets.push({ itemset: candidate, count });
+      }
+    }
+
+    frequentItemsets.push(...levelItemsets);
+    candidateItemsets = generateCandidates(levelItemsets.map(itemset => itemset.itemset));
+  }
+
+  return frequentItemsets;
+}
+
+export const aprioriAlgorithm: MiningAlgorithm = {
+  name: 'Apriori',
+  mine: apriori
+};
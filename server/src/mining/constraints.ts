@@ -0,0 +1,102 @@
+import { type ItemConstraints } from '../schema';
+import { type ItemsetCount, type MiningAlgorithm } from './types';
+import { itemsetKey, nonEmptySubsets } from './itemsets';
+import { buildTidsets, intersection } from './tidsets';
+
+export interface ConstrainedItemsets {
+  minedItemsets: ItemsetCount[]; // Sorted, each meeting the constraints
+  countedItemsets: ItemsetCount[]; // Also every subset of those, for rule measures
+}
+
+// Empty lists constrain nothing
+const itemSet = (items?: string[]): Set<string> | null =>
+  items && items.length > 0 ? new Set(items) : null;
+
+// Items a rule may use on each side; null leaves that side unconstrained
+export function ruleSideItems(constraints?: ItemConstraints): {
+  antecedent: Set<string> | null;
+  consequent: Set<string> | null;
+} {
+  return {
+    antecedent: itemSet(constraints?.antecedent_items),
+    consequent: itemSet(constraints?.consequent_items)
+  };
+}
+
+// Counts the subsets of `itemsets` not counted already, by intersecting
+// the items' tidsets over all transactions
+function countSubsets(transactions: string[][], itemsets: ItemsetCount[]): ItemsetCount[] {
+  const tidsets = buildTidsets(transactions);
+
+  const counts = new Map(itemsets.map(itemset => [itemsetKey(itemset.itemset), itemset]));
+  for (const { itemset } of itemsets) {
+    for (const subset of nonEmptySubsets(itemset)) {
+      const key = itemsetKey(subset);
+      if (counts.has(key)) continue;
+
+      const tids = subset.slice(1).reduce(
+        (common, item) => intersection(common, tidsets.get(item) ?? []),
+        tidsets.get(subset[0]) ?? []
+      );
+      counts.set(key, { itemset: subset, count: tids.length });
+    }
+  }
+
+  return [...counts.values()];
+}
+
+// Mines only what the constraints allow. Excluded items, and items
+// neither side of a rule may use, are dropped from the transactions first.
+// With required items only the transactions containing all of them are
+// mined, without them, and the required items are added back: that
+// conditional search never visits itemsets lacking one. Subsets lacking a
+// required item are then counted over all transactions, since rules need
+// their antecedent and consequent counts.
+export function mineWithConstraints(
+  miner: MiningAlgorithm,
+  transactions: string[][],
+  minSupportCount: number,
+  constraints?: ItemConstraints,
+  maxLength = Infinity
+): ConstrainedItemsets {
+  const excluded = itemSet(constraints?.exclude) ?? new Set<string>();
+  const { antecedent, consequent } = ruleSideItems(constraints);
+  const usable = (item: string): boolean =>
+    !excluded.has(item) && (!antecedent || !consequent || antecedent.has(item) || consequent.has(item));
+  const required = [...(itemSet(constraints?.must_include) ?? [])].sort();
+
+  const sortItemsets = (itemsets: ItemsetCount[]): ItemsetCount[] =>
+    itemsets.map(itemset => ({ ...itemset, itemset: [...itemset.itemset].sort() }));
+
+  if (required.length === 0) {
+    const minedItemsets = sortItemsets(
+      miner.mine(transactions.map(transaction => transaction.filter(usable)), minSupportCount, maxLength)
+    );
+    return { minedItemsets, countedItemsets: minedItemsets };
+  }
+
+  if (!required.every(usable) || required.length > maxLength) {
+    return { minedItemsets: [], countedItemsets: [] };
+  }
+
+  const conditional = transactions
+    .filter(transaction => required.every(item => transaction.includes(item)))
+    .map(transaction => transaction.filter(item => usable(item) && !required.includes(item)));
+  if (conditional.length < minSupportCount || conditional.length === 0) {
+    return { minedItemsets: [], countedItemsets: [] };
+  }
+
+  // The required items already use part of the length limit
+  const extensions = required.length < maxLength
+    ? miner.mine(conditional, minSupportCount, maxLength - required.length)
+    : [];
+  const minedItemsets = sortItemsets([
+    { itemset: required, count: conditional.length },
+    ...extensions.map(itemset => ({
+      itemset: [...required, ...itemset.itemset],
+      count: itemset.count
+    }))
+  ]);
+
+  return { minedItemsets, countedItemsets: countSubsets(transactions, minedItemsets) };
+}
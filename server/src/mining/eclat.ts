@@ -0,0 +1,63 @@
+import { type ItemsetCount, type MiningAlgorithm } from './types';
+import { buildTidsets, difference } from './tidsets';
+
+// An item extending the current prefix. At the top level `tids` is the
+// item's tidset (the transactions containing it); below it is the diffset
+// against the prefix, the transactions containing the prefix but not the
+// extended itemset, which stays small on dense data.
+interface EclatNode {
+  item: string;
+  tids: number[];
+  support: number;
+}
+
+// Depth-first search over the prefix tree. For itemsets PX and PY:
+// d(XY) = t(X) - t(Y) below the top level's tidsets, then
+// d(PXY) = d(PY) - d(PX), and support(PXY) = support(PX) - |d(PXY)|.
+function extendPrefix(
+  prefix: string[],
+  nodes: EclatNode[],
+  fromTidsets: boolean,
+  minSupportCount: number,
+  maxLength: number,
+  results: ItemsetCount[]
+) {
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    const itemset = [...prefix, node.item];
+    results.push({ itemset: [...itemset].sort(), count: node.support });
+    if (itemset.length >= maxLength) continue;
+
+    const children: EclatNode[] = [];
+    for (let j = i + 1; j < nodes.length; j++) {
+      const sibling = nodes[j];
+      const diffset = fromTidsets ? difference(node.tids, sibling.tids) : difference(sibling.tids, node.tids);
+      const support = node.support - diffset.length;
+      if (support >= minSupportCount) {
+        children.push({ item: sibling.item, tids: diffset, support });
+      }
+    }
+
+    if (children.length > 0) {
+      extendPrefix(itemset, children, false, minSupportCount, maxLength, results);
+    }
+  }
+}
+
+function eclat(transactions: string[][], minSupportCount: number, maxLength = Infinity): ItemsetCount[] {
+  const tidsets = buildTidsets(transactions);
+
+  // Least frequent items first keeps the search tree narrow
+  const roots = Array.from(tidsets, ([item, tids]) => ({ item, tids, support: tids.length }))
+    .filter(node => node.support >= minSupportCount)
+    .sort((a, b) => a.support - b.support || a.item.localeCompare(b.item));
+
+  const results: ItemsetCount[] = [];
+  extendPrefix([], roots, true, minSupportCount, maxLength, results);
+  return results;
+}
+
+export const eclatAlgorithm: MiningAlgorithm = {
+  name: 'Eclat',
+  mine: eclat
+};
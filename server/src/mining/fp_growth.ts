@@ -0,0 +1,165 @@
+import { type ItemsetCount, type MiningAlgorithm } from './types';
+
+// Paths list items by descending frequency. Ties are broken by name so
+// every path agrees on the order; otherwise an item's conditional pattern
+// base misses the tied items placed below it.
+const byFrequency = (counts: Map<string, number>) => (a: string, b: string): number =>
+  (counts.get(b) || 0) - (counts.get(a) || 0) || (a < b ? -1 : a > b ? 1 : 0);
+
+// FP-Tree Node class
+class FPNode {
+  item: string;
+  count: number;
+  parent: FPNode | null;
+  children: Map<string, FPNode>;
+  nodeLink: FPNode | null;
+
+  constructor(item: string, count: number, parent: FPNode | null = null) {
+    this.item = item;
+    this.count = count;
+    this.parent = parent;
+    this.children = new Map();
+    this.nodeLink = null;
+  }
+}
+
+// FP-Tree class
+class FPTree {
+  root: FPNode;
+  headerTable: Map<string, { count: number; head: FPNode | null }>;
+  minSupport: number;
+
+  constructor(transactions: string[][], minSupport: number) {
+    this.root = new FPNode('root', 0);
+    this.headerTable = new Map();
+    this.minSupport = minSupport;
+    this.buildTree(transactions);
+  }
+
+  private buildTree(transactions: string[][]) {
+    // First pass: count item frequencies
+    const itemCounts = new Map<string, number>();
+    for (const transaction of transactions) {
+      for (const item of transaction) {
+        itemCounts.set(item, (itemCounts.get(item) || 0) + 1);
+      }
+    }
+
+    // Filter frequent items and sort by frequency (descending)
+    const frequentItems = Array.from(itemCounts.entries())
+      .filter(([, count]) => count >= this.minSupport)
+      .sort((a, b) => byFrequency(itemCounts)(a[0], b[0]));
+
+    // Initialize header table
+    for (const [item, count] of frequentItems) {
+      this.headerTable.set(item, { count, head: null });
+    }
+
+    const frequentItemSet = new Set(frequentItems.map(([item]) => item));
+
+    // Second pass: build FP-tree
+    for (const transaction of transactions) {
+      const filteredTransaction = transaction
+        .filter(item => frequentItemSet.has(item))
+        .sort(byFrequency(itemCounts));
+
+      if (filteredTransaction.length > 0) {
+        this.insertTransaction(filteredTransaction, this.root);
+      }
+    }
+  }
+
+  private insertTransaction(transaction: string[], node: FPNode) {
+    if (transaction.length === 0) return;
+
+    const [firstItem, ...restItems] = transaction;
+    
+    if (node.children.has(firstItem)) {
+      const childNode = node.children.get(firstItem)!;
+      childNode.count++;
+      this.insertTransaction(restItems, childNode);
+    } else {
+      const newNode = new FPNode(firstItem, 1, node);
+      node.children.set(firstItem, newNode);
+
+      // Update header table links
+      const headerEntry = this.headerTable.get(firstItem);
+      if (headerEntry) {
+        if (headerEntry.head === null) {
+          headerEntry.head = newNode;
+        } else {
+          let current: FPNode = headerEntry.head;
+          while (current.nodeLink !== null) {
+            current = current.nodeLink;
+          }
+          current.nodeLink = newNode;
+        }
+      }
+
+      this.insertTransaction(restItems, newNode);
+    }
+  }
+
+  getConditionalPatternBase(item: string): string[][] {
+    const patterns: string[][] = [];
+    const headerEntry = this.headerTable.get(item);
+    
+    if (!headerEntry || !headerEntry.head) return patterns;
+
+    let current: FPNode | null = headerEntry.head;
+    while (current !== null) {
+      const path: string[] = [];
+      let pathNode = current.parent;
+      
+      while (pathNode !== null && pathNode.item !== 'root') {
+        path.unshift(pathNode.item);
+        pathNode = pathNode.parent;
+      }
+      
+      if (path.length > 0) {
+        for (let i = 0; i < current.count; i++) {
+          patterns.push([...path]);
+        }
+      }
+      
+      current = current.nodeLink;
+    }
+    
+    return patterns;
+  }
+}
+
+function fpGrowth(
+  transactions: string[][],
+  minSupport: number,
+  maxLength: number,
+  prefix: string[] = []
+): ItemsetCount[] {
+  const tree = new FPTree(transactions, minSupport);
+  const frequentItemsets: ItemsetCount[] = [];
+
+  // Walk the header table bottom-up: the reverse of the path order
+  const items = Array.from(tree.headerTable.entries()).reverse();
+
+  for (const [item, { count }] of items) {
+    const newItemset = [...prefix, item];
+    frequentItemsets.push({ itemset: newItemset, count });
+
+    const conditionalPatternBase = tree.getConditionalPatternBase(item);
+    
+    // Conditional trees only grow itemsets longer than the prefix
+    if (conditionalPatternBase.length > 0 && newItemset.length < maxLength) {
+      const conditionalFrequentItemsets = fpGrowth(conditionalPatternBase, minSupport, maxLength, newItemset);
+      frequentItemsets.push(...conditionalFrequentItemsets);
+    }
+  }
+
+  return frequentItemsets;
+}
+
+export const fpGrowthAlgorithm: MiningAlgorithm = {
+  name: 'FP-Growth',
+  // Items repeated within a basket would be counted twice along its path
+  mine: (transactions, minSupportCount, maxLength = Infinity) =>
+    fpGrowth(transactions.map(transaction => [...new Set(transaction)]), minSupportCount, maxLength)
+};
@@ -0,0 +1,60 @@
+import { type ItemsetCount } from './types';
+
+// Item names may contain commas, so keys are joined on a control character
+export const itemsetKey = (itemset: string[]): string => itemset.join('\u0000');
+
+// Every non-empty subset of an itemset, itself included, keeping the item
+// order. Built recursively, so any itemset length works.
+export function nonEmptySubsets(itemset: string[]): string[][] {
+  const result: string[][] = [];
+  const extend = (subset: string[], start: number) => {
+    for (let index = start; index < itemset.length; index++) {
+      const extended = [...subset, itemset[index]];
+      result.push(extended);
+      extend(extended, index + 1);
+    }
+  };
+  extend([], 0);
+  return result;
+}
+
+// Keys of the closed itemsets: those with no superset of equal support.
+// Support only falls as items are added, so an itemset is closed exactly
+// when no superset one item larger has its support; that superset is
+// frequent too, so checking the mined itemsets is enough. Itemsets must be
+// sorted.
+export function closedItemsetKeys(frequentItemsets: ItemsetCount[]): Set<string> {
+  const counts = new Map<string, number>();
+  for (const { itemset, count } of frequentItemsets) {
+    counts.set(itemsetKey(itemset), count);
+  }
+
+  const absorbed = new Set<string>();
+  for (const { itemset, count } of frequentItemsets) {
+    for (let index = 0; index < itemset.length; index++) {
+      const subsetKey = itemsetKey(itemset.filter((_, position) => position !== index));
+      if (counts.get(subsetKey) === count) {
+        absorbed.add(subsetKey);
+      }
+    }
+  }
+
+  return new Set([...counts.keys()].filter(key => !absorbed.has(key)));
+}
+
+// Keys of the maximal itemsets: those with no frequent superset. As with
+// closed itemsets, checking supersets one item larger is enough.
+export function maximalItemsetKeys(frequentItemsets: ItemsetCount[]): Set<string> {
+  const extended = new Set<string>();
+  for (const { itemset } of frequentItemsets) {
+    for (let index = 0; index < itemset.length; index++) {
+      extended.add(itemsetKey(itemset.filter((_, position) => position !== index)));
+    }
+  }
+
+  return new Set(
+    frequentItemsets
+      .map(({ itemset }) => itemsetKey(itemset))
+      .filter(key => !extended.has(key))
+  );
+}
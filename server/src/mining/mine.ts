@@ -0,0 +1,78 @@
+import { type ItemConstraints, type OutputMode, type RulePruning } from '../schema';
+import { type ItemsetCount, type MiningAlgorithm } from './types';
+import { generateAssociationRules, type AssociationRuleData } from './rules';
+import { closedItemsetKeys, maximalItemsetKeys, itemsetKey } from './itemsets';
+import { pruneRules } from './pruning';
+import { mineWithConstraints, ruleSideItems } from './constraints';
+
+export interface MiningOptions {
+  outputMode: OutputMode;
+  minConfidence: number;
+  rulePruning?: RulePruning;
+  itemConstraints?: ItemConstraints;
+  maxItemsetLength?: number;
+  maxAntecedentSize?: number;
+  maxConsequentSize?: number;
+}
+
+export interface MiningResult {
+  minSupportCount: number; // The threshold the itemsets were mined at
+  frequentItemsets: ItemsetCount[]; // Those kept by the output mode
+  associationRules: AssociationRuleData[];
+  prunedRuleCount: number;
+  closedKeys: Set<string>;
+  maximalKeys: Set<string>;
+}
+
+// Mines at one support count within the item constraints, keeps the
+// itemsets the output mode asks for and splits them into rules, pruned if
+// asked
+export function mineAtThreshold(
+  miner: MiningAlgorithm,
+  transactions: string[][],
+  minSupportCount: number,
+  options: MiningOptions
+): MiningResult {
+  const { minedItemsets, countedItemsets } = mineWithConstraints(
+    miner,
+    transactions,
+    minSupportCount,
+    options.itemConstraints,
+    options.maxItemsetLength
+  );
+
+  // In closed and maximal modes only those itemsets are stored and split
+  // into rules; the rest still supply antecedent and consequent counts
+  const closedKeys = closedItemsetKeys(minedItemsets);
+  const maximalKeys = maximalItemsetKeys(minedItemsets);
+  const keptKeys = options.outputMode === 'closed'
+    ? closedKeys
+    : options.outputMode === 'maximal' ? maximalKeys : null;
+  const frequentItemsets = keptKeys
+    ? minedItemsets.filter(itemset => keptKeys.has(itemsetKey(itemset.itemset)))
+    : minedItemsets;
+
+  const generatedRules = generateAssociationRules(
+    frequentItemsets,
+    options.minConfidence,
+    transactions.length,
+    {
+      countedItemsets,
+      sideItems: ruleSideItems(options.itemConstraints),
+      maxAntecedentSize: options.maxAntecedentSize,
+      maxConsequentSize: options.maxConsequentSize
+    }
+  );
+  const associationRules = options.rulePruning
+    ? pruneRules(generatedRules, options.rulePruning, countedItemsets, transactions.length)
+    : generatedRules;
+
+  return {
+    minSupportCount,
+    frequentItemsets,
+    associationRules,
+    prunedRuleCount: generatedRules.length - associationRules.length,
+    closedKeys,
+    maximalKeys
+  };
+}
@@ -0,0 +1,60 @@
+import { type RulePruning } from '../schema';
+import { type ItemsetCount } from './types';
+import { type AssociationRuleData } from './rules';
+import { itemsetKey, nonEmptySubsets } from './itemsets';
+
+const isSubset = (subset: string[], superset: string[]): boolean =>
+  subset.every(item => superset.includes(item));
+
+// Drops rules made unnecessary by others. A rule is redundant when another
+// rule that is more general (its antecedent a subset, its consequent a
+// superset) is at least as confident. A rule is non-productive when
+// removing items from its antecedent, down to none at all, predicts the
+// consequent at least as well. Both are judged against the unpruned rules
+// and the counts of `countedItemsets`.
+export function pruneRules(
+  rules: AssociationRuleData[],
+  pruning: RulePruning,
+  countedItemsets: ItemsetCount[],
+  totalTransactions: number
+): AssociationRuleData[] {
+  const counts = new Map<string, number>();
+  for (const { itemset, count } of countedItemsets) {
+    counts.set(itemsetKey(itemset), count);
+  }
+
+  const rulesByAntecedent = new Map<string, AssociationRuleData[]>();
+  for (const rule of rules) {
+    const key = itemsetKey(rule.antecedent);
+    rulesByAntecedent.set(key, [...(rulesByAntecedent.get(key) ?? []), rule]);
+  }
+
+  const isRedundant = (rule: AssociationRuleData): boolean =>
+    nonEmptySubsets(rule.antecedent).some(antecedent =>
+      (rulesByAntecedent.get(itemsetKey(antecedent)) ?? []).some(general =>
+        general !== rule
+        && isSubset(rule.consequent, general.consequent)
+        && general.confidence >= rule.confidence
+      )
+    );
+
+  const isNonProductive = (rule: AssociationRuleData): boolean => {
+    const consequentCount = counts.get(itemsetKey(rule.consequent)) ?? 0;
+    // With an empty antecedent the consequent's own support is the baseline
+    if (consequentCount / totalTransactions >= rule.confidence) {
+      return true;
+    }
+
+    return nonEmptySubsets(rule.antecedent)
+      .filter(antecedent => antecedent.length < rule.antecedent.length)
+      .some(antecedent => {
+        const antecedentCount = counts.get(itemsetKey(antecedent)) ?? 0;
+        const bothCount = counts.get(itemsetKey([...antecedent, ...rule.consequent].sort())) ?? 0;
+        return antecedentCount > 0 && bothCount / antecedentCount >= rule.confidence;
+      });
+  };
+
+  return rules.filter(rule =>
+    !(pruning.redundant && isRedundant(rule)) && !(pruning.non_productive && isNonProductive(rule))
+  );
+}
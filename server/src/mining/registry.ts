@@ -0,0 +1,17 @@
+import { type Algorithm } from '../schema';
+import { type MiningAlgorithm } from './types';
+import { aprioriAlgorithm } from './apriori';
+import { fpGrowthAlgorithm } from './fp_growth';
+import { eclatAlgorithm } from './eclat';
+
+// One miner per value of the algorithm enum; adding an enum value without
+// registering its miner fails to compile
+const miningAlgorithms: Record<Algorithm, MiningAlgorithm> = {
+  'apriori': aprioriAlgorithm,
+  'fp-growth': fpGrowthAlgorithm,
+  'eclat': eclatAlgorithm
+};
+
+export function getMiningAlgorithm(algorithm: Algorithm): MiningAlgorithm {
+  return miningAlgorithms[algorithm];
+}
@@ -0,0 +1,136 @@
+import { type RuleMeasures, type RuleSignificance } from '../schema';
+import { type ItemsetCount } from './types';
+import { itemsetKey } from './itemsets';
+import { contingencyTester, bonferroni, benjaminiHochberg } from './significance';
+
+export interface AssociationRuleData {
+  antecedent: string[];
+  consequent: string[];
+  support: number; // Fraction of transactions containing both sides
+  confidence: number;
+  lift: number;
+  measures: RuleMeasures;
+  significance: RuleSignificance;
+}
+
+// Measures of a rule from the counts of transactions containing both
+// sides, the antecedent and the consequent
+export function ruleMeasures(
+  count: number,
+  antecedentCount: number,
+  consequentCount: number,
+  totalTransactions: number
+): RuleMeasures {
+  const support = count / totalTransactions;
+  const antecedentSupport = antecedentCount / totalTransactions;
+  const consequentSupport = consequentCount / totalTransactions;
+  const confidence = count / antecedentCount;
+  const leverage = support - antecedentSupport * consequentSupport;
+  const zhangScale = Math.max(support * (1 - antecedentSupport), antecedentSupport * (consequentSupport - support));
+
+  return {
+    leverage,
+    conviction: confidence < 1 ? (1 - consequentSupport) / (1 - confidence) : null,
+    zhang: zhangScale > 0 ? leverage / zhangScale : 0,
+    jaccard: count / (antecedentCount + consequentCount - count),
+    cosine: count / Math.sqrt(antecedentCount * consequentCount),
+    kulczynski: (count / antecedentCount + count / consequentCount) / 2,
+    imbalance_ratio: Math.abs(antecedentCount - consequentCount) / (antecedentCount + consequentCount - count),
+    all_confidence: count / Math.max(antecedentCount, consequentCount)
+  };
+}
+
+export interface RuleGenerationOptions {
+  // Every frequent itemset, when rules come from only some of them
+  countedItemsets?: ItemsetCount[];
+  // Items each side may use; null leaves that side unconstrained
+  sideItems?: { antecedent: Set<string> | null; consequent: Set<string> | null };
+  maxAntecedentSize?: number;
+  maxConsequentSize?: number;
+}
+
+// Every way to pick `size` of the items, in their order
+function combinations(items: string[], size: number): string[][] {
+  if (size === 0) return [[]];
+
+  const result: string[][] = [];
+  for (let index = 0; index <= items.length - size; index++) {
+    for (const rest of combinations(items.slice(index + 1), size - 1)) {
+      result.push([items[index], ...rest]);
+    }
+  }
+  return result;
+}
+
+// Splits every frequent itemset of two or more sorted items into
+// antecedent => consequent rules, each side drawn only from its allowed
+// items and within its size limit when those are given. Only splits
+// within the limits are enumerated. Every subset of a frequent itemset is
+// frequent, so both sides' counts are known from the counted itemsets.
+export function generateAssociationRules(
+  frequentItemsets: ItemsetCount[],
+  minConfidence: number,
+  totalTransactions: number,
+  options: RuleGenerationOptions = {}
+): AssociationRuleData[] {
+  const sideItems = options.sideItems ?? { antecedent: null, consequent: null };
+  const maxAntecedentSize = options.maxAntecedentSize ?? Infinity;
+  const maxConsequentSize = options.maxConsequentSize ?? Infinity;
+
+  const counts = new Map<string, number>();
+  for (const { itemset, count } of options.countedItemsets ?? frequentItemsets) {
+    counts.set(itemsetKey(itemset), count);
+  }
+
+  const testRule = contingencyTester(totalTransactions);
+  const rules: Omit<AssociationRuleData, 'significance'>[] = [];
+  const tests: ReturnType<typeof testRule>[] = [];
+  for (const { itemset, count } of frequentItemsets) {
+    if (itemset.length < 2) continue;
+
+    // Pick each consequent; the remaining items are the antecedent
+    const smallestConsequent = Math.max(1, itemset.length - maxAntecedentSize);
+    const largestConsequent = Math.min(itemset.length - 1, maxConsequentSize);
+    const consequents: string[][] = [];
+    for (let size = smallestConsequent; size <= largestConsequent; size++) {
+      consequents.push(...combinations(itemset, size));
+    }
+
+    for (const consequent of consequents) {
+      const antecedent = itemset.filter(item => !consequent.includes(item));
+      if (sideItems.antecedent && !antecedent.every(item => sideItems.antecedent!.has(item))) continue;
+      if (sideItems.consequent && !consequent.every(item => sideItems.consequent!.has(item))) continue;
+
+      const antecedentCount = counts.get(itemsetKey(antecedent)) ?? 0;
+      const consequentCount = counts.get(itemsetKey(consequent)) ?? 0;
+      if (antecedentCount === 0 || consequentCount === 0) continue;
+
+      const confidence = count / antecedentCount;
+      if (confidence < minConfidence) continue;
+
+      rules.push({
+        antecedent,
+        consequent,
+        support: count / totalTransactions,
+        confidence,
+        // Confidence over the consequent's support
+        lift: (count * totalTransactions) / (antecedentCount * consequentCount),
+        measures: ruleMeasures(count, antecedentCount, consequentCount, totalTransactions)
+      });
+      tests.push(testRule(count, antecedentCount, consequentCount));
+    }
+  }
+
+  // Corrections count every rule generated as one test
+  const pValues = tests.map(test => test.p_value);
+  const bonferroniPValues = bonferroni(pValues);
+  const benjaminiHochbergPValues = benjaminiHochberg(pValues);
+  return rules.map((rule, index) => ({
+    ...rule,
+    significance: {
+      ...tests[index],
+      p_bonferroni: bonferroniPValues[index],
+      p_benjamini_hochberg: benjaminiHochbergPValues[index]
+    }
+  }));
+}
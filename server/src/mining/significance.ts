@@ -0,0 +1,62 @@
+import { type RuleSignificance } from '../schema';
+
+export type ContingencyTest = Omit<RuleSignificance, 'p_bonferroni' | 'p_benjamini_hochberg'>;
+
+// Tests a rule's 2×2 table of transactions with or without the antecedent
+// against with or without the consequent. Log factorials up to the number
+// of transactions are computed once and shared by every rule.
+export function contingencyTester(totalTransactions: number) {
+  const logFactorials = [0];
+  for (let n = 1; n <= totalTransactions; n++) {
+    logFactorials.push(logFactorials[n - 1] + Math.log(n));
+  }
+  const logChoose = (n: number, k: number): number => logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+
+  return (count: number, antecedentCount: number, consequentCount: number): ContingencyTest => {
+    const total = totalTransactions;
+    const antecedentOnly = antecedentCount - count;
+    const consequentOnly = consequentCount - count;
+    const neither = total - antecedentCount - consequentOnly;
+
+    // Pearson's chi-square, without continuity correction; zero when a
+    // margin is empty and the table says nothing
+    const margins = antecedentCount * (total - antecedentCount) * consequentCount * (total - consequentCount);
+    const chiSquare = margins > 0
+      ? total * Math.pow(count * neither - antecedentOnly * consequentOnly, 2) / margins
+      : 0;
+
+    // One-sided Fisher's exact test: the hypergeometric probability of
+    // every table with these margins and at least as many transactions
+    // holding both sides, so rules whose sides avoid each other (lift
+    // below 1) are never significant
+    const logProbability = (both: number): number =>
+      logChoose(antecedentCount, both) + logChoose(total - antecedentCount, consequentCount - both)
+      - logChoose(total, consequentCount);
+    let pValue = 0;
+    const highest = Math.min(antecedentCount, consequentCount);
+    for (let both = count; both <= highest; both++) {
+      pValue += Math.exp(logProbability(both));
+    }
+
+    return { chi_square: chiSquare, p_value: Math.min(1, pValue) };
+  };
+}
+
+// Family-wise error control: each p-value times the number of tests
+export function bonferroni(pValues: number[]): number[] {
+  return pValues.map(pValue => Math.min(1, pValue * pValues.length));
+}
+
+// False discovery rate control: the k-th smallest p-value times m / k,
+// made monotone from the largest down
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const order = pValues.map((_, index) => index).sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 1;
+  for (let rank = order.length; rank >= 1; rank--) {
+    const index = order[rank - 1];
+    running = Math.min(running, pValues[index] * pValues.length / rank);
+    adjusted[index] = running;
+  }
+  return adjusted;
+}
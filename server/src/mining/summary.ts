@@ -0,0 +1,77 @@
+import { type CreateAnalysisInput } from '../schema';
+import { type MiningResult } from './mine';
+
+export function generateSummary(
+  algorithmName: string,
+  mined: MiningResult,
+  parameters: CreateAnalysisInput,
+  totalTransactions: number
+): string {
+  const { frequentItemsets, associationRules } = mined;
+  const effectiveMinSupport = mined.minSupportCount / totalTransactions;
+
+  // Most frequent itemsets and strongest rules by confidence
+  const topItemsets = [...frequentItemsets]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  const topRules = [...associationRules]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, 3);
+
+  let summary = `${algorithmName} analysis completed successfully.\n\n`;
+  summary += `Parameters: Min Support = ${(parameters.min_support * 100).toFixed(1)}%, Min Confidence = ${(parameters.min_confidence * 100).toFixed(1)}%\n\n`;
+  const constraints = parameters.item_constraints;
+  if (constraints) {
+    const parts = [
+      ['must include', constraints.must_include],
+      ['excluding', constraints.exclude],
+      ['antecedent from', constraints.antecedent_items],
+      ['consequent from', constraints.consequent_items]
+    ] as const;
+    const described = parts
+      .filter(([, items]) => items && items.length > 0)
+      .map(([label, items]) => `${label} {${items!.join(', ')}}`);
+    if (described.length > 0) {
+      summary += `Item constraints: ${described.join('; ')}\n\n`;
+    }
+  }
+  const limits = [
+    ['itemset length', parameters.max_itemset_length],
+    ['antecedent size', parameters.max_antecedent_size],
+    ['consequent size', parameters.max_consequent_size]
+  ] as const;
+  const describedLimits = limits
+    .filter(([, limit]) => limit !== undefined)
+    .map(([label, limit]) => `${label} ≤ ${limit}`);
+  if (describedLimits.length > 0) {
+    summary += `Limits: ${describedLimits.join(', ')}\n\n`;
+  }
+  if (parameters.top_k) {
+    summary += `Top ${parameters.top_k.k} by ${parameters.top_k.rank_by}: effective Min Support = ${(effectiveMinSupport * 100).toFixed(1)}%\n\n`;
+  }
+  const itemsetKind = parameters.output_mode === 'closed' || parameters.output_mode === 'maximal'
+    ? `${parameters.output_mode} frequent itemsets`
+    : 'frequent itemsets';
+  summary += `Results: Found ${frequentItemsets.length} ${itemsetKind} and ${associationRules.length} association rules.\n\n`;
+  if (parameters.rule_pruning) {
+    summary += `Pruned ${mined.prunedRuleCount} redundant or non-productive rules.\n\n`;
+  }
+
+  if (topItemsets.length > 0) {
+    summary += `Top Frequent Itemsets:\n`;
+    topItemsets.forEach((itemset, index) => {
+      summary += `${index + 1}. {${itemset.itemset.join(', ')}} - Support: ${(itemset.count / totalTransactions * 100).toFixed(1)}%\n`;
+    });
+    summary += `\n`;
+  }
+
+  if (topRules.length > 0) {
+    summary += `Top Association Rules:\n`;
+    topRules.forEach((rule, index) => {
+      summary += `${index + 1}. {${rule.antecedent.join(', ')}} → {${rule.consequent.join(', ')}} - Confidence: ${(rule.confidence * 100).toFixed(1)}%, Lift: ${rule.lift.toFixed(2)}\n`;
+    });
+  }
+
+  return summary;
+}
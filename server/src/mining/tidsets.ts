@@ -0,0 +1,46 @@
+// Vertical layout helpers shared by Eclat and subset counting. Tidsets
+// list the indexes of the transactions containing an item, in ascending
+// order.
+
+// Maps each item to its tidset; transaction indexes are visited in order,
+// so every tidset is sorted
+export function buildTidsets(transactions: string[][]): Map<string, number[]> {
+  const tidsets = new Map<string, number[]>();
+  transactions.forEach((transaction, tid) => {
+    for (const item of new Set(transaction)) {
+      const tids = tidsets.get(item);
+      if (tids) {
+        tids.push(tid);
+      } else {
+        tidsets.set(item, [tid]);
+      }
+    }
+  });
+  return tidsets;
+}
+
+// Elements of both sorted arrays
+export function intersection(a: number[], b: number[]): number[] {
+  const result: number[] = [];
+  let j = 0;
+  for (const value of a) {
+    while (j < b.length && b[j] < value) j++;
+    if (j < b.length && b[j] === value) {
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+// Elements of sorted array a missing from sorted array b
+export function difference(a: number[], b: number[]): number[] {
+  const result: number[] = [];
+  let j = 0;
+  for (const value of a) {
+    while (j < b.length && b[j] < value) j++;
+    if (j >= b.length || b[j] !== value) {
+      result.push(value);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,68 @@
+import { type TopK } from '../schema';
+import { type MiningAlgorithm } from './types';
+import { mineAtThreshold, type MiningOptions, type MiningResult } from './mine';
+
+// Count of the k-th most frequent single item, or of the rarest when there
+// are fewer than k items. Items are itemsets, so without item constraints
+// at least k itemsets reach it.
+function kthItemCount(transactions: string[][], k: number): number {
+  const counts = new Map<string, number>();
+  for (const transaction of transactions) {
+    for (const item of new Set(transaction)) {
+      counts.set(item, (counts.get(item) ?? 0) + 1);
+    }
+  }
+
+  const sorted = [...counts.values()].sort((a, b) => b - a);
+  return sorted[Math.min(k, sorted.length) - 1] ?? 1;
+}
+
+// Finds the k most frequent itemsets, or the k best rules by confidence or
+// lift, without a fixed support threshold. The threshold starts at the k-th
+// item's count and halves until `floorCount` is reached, so a low floor
+// bounds the work. For itemsets it stops once k are found, and itemsets
+// tied with the k-th are kept. For rules it stops only once the k-th best
+// rule can no longer be beaten by one with less support: confidence is at
+// most 1, and lift = count·N / (antecedent count · consequent count) is at
+// most N / count, so at most N / floorCount for any rule above the floor.
+export function mineTopK(
+  miner: MiningAlgorithm,
+  transactions: string[][],
+  floorCount: number,
+  topK: TopK,
+  options: MiningOptions
+): MiningResult {
+  let threshold = Math.max(floorCount, kthItemCount(transactions, topK.k));
+  let result = mineAtThreshold(miner, transactions, threshold, options);
+
+  if (topK.rank_by === 'support') {
+    while (result.frequentItemsets.length < topK.k && threshold > floorCount) {
+      threshold = Math.max(floorCount, Math.floor(threshold / 2));
+      result = mineAtThreshold(miner, transactions, threshold, options);
+    }
+
+    const counts = result.frequentItemsets.map(itemset => itemset.count).sort((a, b) => b - a);
+    if (counts.length <= topK.k) {
+      return result;
+    }
+
+    // Mining again at the k-th count keeps closed and maximal flags true
+    // for the smaller result
+    return mineAtThreshold(miner, transactions, counts[topK.k - 1], options);
+  }
+
+  const measure = topK.rank_by;
+  const bestPossible = measure === 'confidence' ? 1 : transactions.length / floorCount;
+  const topRules = () => [...result.associationRules]
+    .sort((a, b) => b[measure] - a[measure])
+    .slice(0, topK.k);
+
+  let ranked = topRules();
+  while (threshold > floorCount && (ranked.length < topK.k || ranked[topK.k - 1][measure] < bestPossible)) {
+    threshold = Math.max(floorCount, Math.floor(threshold / 2));
+    result = mineAtThreshold(miner, transactions, threshold, options);
+    ranked = topRules();
+  }
+
+  return { ...result, associationRules: ranked };
+}
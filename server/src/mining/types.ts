@@ -0,0 +1,15 @@
+// An itemset with the number of transactions containing it
+export interface ItemsetCount {
+  itemset: string[];
+  count: number;
+}
+
+// A frequent itemset miner: transactions in, every itemset of at most
+// `maxLength` items contained in at least `minSupportCount` transactions
+// out. Miners stop growing itemsets at the limit rather than filtering
+// afterwards. Rule generation, persistence and summaries are shared by the
+// analysis pipeline.
+export interface MiningAlgorithm {
+  name: string; // Shown in analysis summaries
+  mine(transactions: string[][], minSupportCount: number, maxLength?: number): ItemsetCount[];
+}
@@ -1,6 +1,104 @@
 
 import { z } from 'zod';
 
+// CSV dialect overrides; omitted fields are detected from the file content
+export const csvEncodingSchema = z.enum(['utf-8', 'utf-16le', 'utf-16be', 'windows-1252']);
+
+export type CsvEncoding = z.infer<typeof csvEncodingSchema>;
+
+export const csvOptionsSchema = z.object({
+  delimiter: z.string().length(1).optional(),
+  quote: z.string().length(1).optional(),
+  encoding: csvEncodingSchema.optional()
+});
+
+export type CsvOptions = z.infer<typeof csvOptionsSchema>;
+
+// How rows map to baskets. 'wide' files hold one basket per row with the
+// items in every other column; 'long' files hold one item per row and
+// repeat the transaction id; 'binary' files are a 0/1 matrix whose header
+// row names the items. Columns are zero-based indexes, and a null id
+// column numbers transactions by row. Wide and binary files read items from
+// item_columns (every column but the id by default) minus ignored_columns;
+// has_header defaults to true.
+export const fileLayoutSchema = z.enum(['wide', 'long', 'binary']);
+
+export type FileLayout = z.infer<typeof fileLayoutSchema>;
+
+export const columnMappingSchema = z.object({
+  layout: fileLayoutSchema,
+  has_header: z.boolean().optional(),
+  id_column: z.number().int().nonnegative().nullable(),
+  item_column: z.number().int().nonnegative().optional(),
+  item_columns: z.array(z.number().int().nonnegative()).optional(),
+  ignored_columns: z.array(z.number().int().nonnegative()).optional()
+}).refine(mapping => mapping.layout !== 'long' || mapping.id_column !== null, {
+  message: 'id_column is required for the long layout',
+  path: ['id_column']
+}).refine(mapping => mapping.layout !== 'long' || mapping.item_column !== undefined, {
+  message: 'item_column is required for the long layout',
+  path: ['item_column']
+}).refine(mapping => mapping.item_column === undefined || mapping.item_column !== mapping.id_column, {
+  message: 'item_column must differ from id_column',
+  path: ['item_column']
+});
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+// Item normalization applied during ingestion, in this order: Unicode
+// normalization, whitespace collapsing, regex rewrites (applied in turn,
+// replacing every match), case folding, then synonyms. Synonym keys go
+// through the same steps before matching, so "Whole  milk" and
+// "whole milk" name the same variant.
+const rewriteRuleSchema = z.object({
+  pattern: z.string().min(1),
+  replacement: z.string(),
+  flags: z.string().regex(/^[imsu]*$/).optional() // 'g' is implied
+}).refine(rule => {
+  try {
+    new RegExp(rule.pattern, rule.flags);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'pattern is not a valid regular expression', path: ['pattern'] });
+
+export const normalizationRulesSchema = z.object({
+  unicode: z.enum(['NFC', 'NFKC']).optional(),
+  collapse_whitespace: z.boolean().optional(),
+  rewrites: z.array(rewriteRuleSchema).optional(),
+  case: z.enum(['lower', 'upper']).optional(),
+  synonyms: z.record(z.string(), z.string()).optional() // Variant -> canonical name
+});
+
+export type NormalizationRules = z.infer<typeof normalizationRulesSchema>;
+
+// Repeated transaction ids in layouts with one basket per row: 'merge'
+// combines the rows into one basket, 'keep_first' drops the later rows and
+// 'reject' fails processing. Ids are compared within a sheet.
+export const duplicatePolicySchema = z.enum(['merge', 'keep_first', 'reject']);
+
+export type DuplicatePolicy = z.infer<typeof duplicatePolicySchema>;
+
+// Items are always stored once per transaction; `keep_quantities` records
+// how often each item occurred alongside them. The policy defaults to
+// 'merge'.
+export const deduplicationSchema = z.object({
+  duplicate_transactions: duplicatePolicySchema.optional(),
+  keep_quantities: z.boolean().optional()
+});
+
+export type Deduplication = z.infer<typeof deduplicationSchema>;
+
+// Worksheets to read: 'all' concatenates every sheet, a list picks sheets by
+// name. Without a selection only the first sheet is read.
+export const sheetSelectionSchema = z.union([
+  z.literal('all'),
+  z.array(z.string().min(1)).min(1)
+]);
+
+export type SheetSelection = z.infer<typeof sheetSelectionSchema>;
+
 // File upload schema
 export const fileUploadSchema = z.object({
   id: z.number(),
@@ -9,6 +107,11 @@ export const fileUploadSchema = z.object({
   file_size: z.number(),
   mime_type: z.string(),
   file_path: z.string(),
+  csv_options: csvOptionsSchema.nullable(),
+  column_mapping: columnMappingSchema.nullable(),
+  sheets: sheetSelectionSchema.nullable(),
+  normalization: normalizationRulesSchema.nullable(),
+  deduplication: deduplicationSchema.nullable(),
   upload_date: z.coerce.date(),
   status: z.enum(['pending', 'processing', 'completed', 'failed'])
 });
@@ -21,17 +124,29 @@ export const createFileUploadInputSchema = z.object({
   original_name: z.string(),
   file_size: z.number().positive(),
   mime_type: z.string(),
-  file_path: z.string()
+  file_path: z.string(),
+  csv_options: csvOptionsSchema.optional()
 });
 
 export type CreateFileUploadInput = z.infer<typeof createFileUploadInputSchema>;
 
+// Input schema for storing an uploaded file's bytes (the body is streamed separately)
+export const storeUploadedFileInputSchema = z.object({
+  original_name: z.string().min(1),
+  mime_type: z.string().min(1),
+  csv_options: csvOptionsSchema.optional()
+});
+
+export type StoreUploadedFileInput = z.infer<typeof storeUploadedFileInputSchema>;
+
 // Transaction data schema
 export const transactionSchema = z.object({
   id: z.number(),
   file_upload_id: z.number(),
   transaction_id: z.string(),
   items: z.array(z.string()),
+  sheet_name: z.string().nullable(), // Worksheet the row came from; null for CSV files
+  quantities: z.record(z.string(), z.number().int()).nullable(), // Occurrences per item, when kept
   created_at: z.coerce.date()
 });
 
@@ -41,11 +156,222 @@ export type Transaction = z.infer<typeof transactionSchema>;
 export const createTransactionInputSchema = z.object({
   file_upload_id: z.number(),
   transaction_id: z.string(),
-  items: z.array(z.string())
+  items: z.array(z.string()),
+  sheet_name: z.string().nullable().optional(),
+  quantities: z.record(z.string(), z.number().int()).nullable().optional()
 });
 
 export type CreateTransactionInput = z.infer<typeof createTransactionInputSchema>;
 
+// Input schema for browsing a file's transactions. Filters combine: the
+// transaction id matches as a case-insensitive substring, `contains_all`
+// keeps baskets holding every listed item and `contains_any` those holding
+// at least one. Pages start at 1.
+export const getTransactionsInputSchema = z.object({
+  fileUploadId: z.number(),
+  transaction_id: z.string().optional(),
+  contains_all: z.array(z.string().min(1)).optional(),
+  contains_any: z.array(z.string().min(1)).optional(),
+  page: z.number().int().positive().optional(),
+  page_size: z.number().int().positive().max(200).optional()
+});
+
+export type GetTransactionsInput = z.infer<typeof getTransactionsInputSchema>;
+
+export const transactionPageSchema = z.object({
+  transactions: z.array(transactionSchema),
+  total: z.number().int(), // Matching transactions across all pages
+  page: z.number().int(),
+  page_size: z.number().int()
+});
+
+export type TransactionPage = z.infer<typeof transactionPageSchema>;
+
+// What to do with transactions left by an earlier run: 'replace' swaps them
+// out atomically, 'append' adds to them. Without a mode, processing a file
+// that already has transactions is refused.
+export const processingModeSchema = z.enum(['replace', 'append']);
+
+export type ProcessingMode = z.infer<typeof processingModeSchema>;
+
+// Input schema for turning an uploaded file into transactions; the mapping,
+// sheets, normalization and deduplication default to the ones stored on the
+// upload, then to the wide layout of the first sheet with items only trimmed
+// and repeated transaction ids merged
+export const processExcelFileInputSchema = z.object({
+  fileUploadId: z.number(),
+  column_mapping: columnMappingSchema.optional(),
+  sheets: sheetSelectionSchema.optional(),
+  normalization: normalizationRulesSchema.optional(),
+  deduplication: deduplicationSchema.optional(),
+  mode: processingModeSchema.optional()
+});
+
+export type ProcessExcelFileInput = z.infer<typeof processExcelFileInputSchema>;
+
+export type ProcessExcelFileOptions = Omit<ProcessExcelFileInput, 'fileUploadId'>;
+
+// Outcome of processing a file: counts rather than the inserted rows
+export const processingSummarySchema = z.object({
+  file_upload_id: z.number(),
+  transaction_count: z.number().int(),
+  item_count: z.number().int(), // Item occurrences across all transactions
+  distinct_item_count: z.number().int(),
+  average_basket_size: z.number(),
+  max_basket_size: z.number().int(),
+  duplicate_item_count: z.number().int(), // Repeated items folded within a transaction
+  duplicate_transaction_count: z.number().int(), // Rows merged or dropped for a repeated id
+  replaced_transaction_count: z.number().int(), // Rows removed by 'replace'
+  stale_analysis_count: z.number().int() // Earlier analyses flagged as stale
+});
+
+export type ProcessingSummary = z.infer<typeof processingSummarySchema>;
+
+// Number of transactions holding a given number of items
+export const basketSizeCountSchema = z.object({
+  size: z.number().int(),
+  count: z.number().int()
+});
+
+export type BasketSizeCount = z.infer<typeof basketSizeCountSchema>;
+
+// Data rows left out of processing, by reason
+export const skippedRowsSchema = z.object({
+  no_id: z.number().int(), // Blank transaction ID
+  no_items: z.number().int(), // No item in any item column
+  too_short: z.number().int(), // Row ends before the ID or item columns
+  emptied_by_normalization: z.number().int() // Every item normalized to nothing; counts baskets in the long layout
+});
+
+export type SkippedRows = z.infer<typeof skippedRowsSchema>;
+
+// Data quality report saved by the latest processing run of a file; with
+// 'append' it describes the appended rows only. Top items count the
+// transactions containing them and suspicious values are placeholder-like
+// item cells such as "N/A".
+export const ingestionReportSchema = z.object({
+  id: z.number(),
+  file_upload_id: z.number(),
+  rows_read: z.number().int(),
+  skipped_rows: skippedRowsSchema,
+  transaction_count: z.number().int(),
+  duplicate_transaction_count: z.number().int(),
+  duplicate_item_count: z.number().int(),
+  distinct_item_count: z.number().int(),
+  basket_sizes: z.array(basketSizeCountSchema),
+  top_items: z.array(z.object({ item: z.string(), count: z.number().int() })),
+  suspicious_values: z.array(z.object({ value: z.string(), count: z.number().int() })),
+  created_at: z.coerce.date()
+});
+
+export type IngestionReport = z.infer<typeof ingestionReportSchema>;
+
+// Statistics over a file's stored transactions, for choosing thresholds.
+// Density is the average basket size over the distinct item count; item
+// support is the share of transactions containing the item.
+export const datasetStatsSchema = z.object({
+  file_upload_id: z.number(),
+  transaction_count: z.number().int(),
+  item_count: z.number().int(),
+  distinct_item_count: z.number().int(),
+  density: z.number(),
+  average_basket_size: z.number(),
+  median_basket_size: z.number(),
+  max_basket_size: z.number().int(),
+  basket_sizes: z.array(basketSizeCountSchema),
+  item_frequencies: z.array(z.object({
+    item: z.string(),
+    count: z.number().int(),
+    support: z.number()
+  }))
+});
+
+export type DatasetStats = z.infer<typeof datasetStatsSchema>;
+
+// Input schema for previewing an uploaded file before choosing a mapping
+export const previewFileInputSchema = z.object({
+  fileUploadId: z.number(),
+  sheet: z.string().min(1).optional(), // Defaults to the first sheet
+  limit: z.number().int().positive().max(100).optional()
+});
+
+export type PreviewFileInput = z.infer<typeof previewFileInputSchema>;
+
+// First rows of an uploaded file as parsed text, starting with the row that
+// may be a header. `headers` names each column from that row (falling back
+// to "Column N"); `has_header` says whether it looks like a header rather
+// than data.
+export const filePreviewSchema = z.object({
+  file_upload_id: z.number(),
+  format: z.enum(['xlsx', 'xls', 'csv']),
+  headers: z.array(z.string()),
+  has_header: z.boolean(),
+  rows: z.array(z.array(z.string())),
+  column_mapping: columnMappingSchema.nullable(),
+  normalization: normalizationRulesSchema.nullable(),
+  deduplication: deduplicationSchema.nullable()
+});
+
+export type FilePreview = z.infer<typeof filePreviewSchema>;
+
+// Worksheet listing for sheet selection; CSV files have a single sheet
+export const workbookSheetSchema = z.object({
+  name: z.string(),
+  row_count: z.number().int()
+});
+
+export type WorkbookSheet = z.infer<typeof workbookSheetSchema>;
+
+// Mining algorithms
+export const algorithmSchema = z.enum(['apriori', 'fp-growth', 'eclat']);
+
+export type Algorithm = z.infer<typeof algorithmSchema>;
+
+// Which frequent itemsets an analysis stores: every one, only the closed
+// ones (no superset with the same support), which keep the support of
+// every other itemset recoverable, or only the maximal ones (no frequent
+// superset at all). Both modes only shrink what is stored: every frequent
+// itemset is still enumerated and then filtered, since rules need the
+// support of each subset, so they cost as much time and memory as 'all'.
+export const outputModeSchema = z.enum(['all', 'closed', 'maximal']);
+
+export type OutputMode = z.infer<typeof outputModeSchema>;
+
+// Top-k mode: instead of a fixed support threshold, find the k most
+// frequent itemsets ('support') or the k best rules by confidence or lift
+export const topKSchema = z.object({
+  k: z.number().int().min(1).max(10000),
+  rank_by: z.enum(['support', 'confidence', 'lift'])
+});
+
+export type TopK = z.infer<typeof topKSchema>;
+
+// Post-processing of the generated rules: drop those a more general rule
+// matches in confidence ('redundant') and those no more confident than a
+// rule with fewer antecedent items ('non_productive')
+export const rulePruningSchema = z.object({
+  redundant: z.boolean(),
+  non_productive: z.boolean()
+});
+
+export type RulePruning = z.infer<typeof rulePruningSchema>;
+
+// Item constraints, applied while mining: itemsets and rules contain every
+// 'must_include' item and no 'exclude' item, and when given, rule
+// antecedents use only 'antecedent_items' and consequents only
+// 'consequent_items'. Empty lists constrain nothing.
+export const itemConstraintsSchema = z.object({
+  must_include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  antecedent_items: z.array(z.string()).optional(),
+  consequent_items: z.array(z.string()).optional()
+}).refine(
+  constraints => !(constraints.must_include ?? []).some(item => (constraints.exclude ?? []).includes(item)),
+  { message: 'An item cannot be both required and excluded' }
+);
+
+export type ItemConstraints = z.infer<typeof itemConstraintsSchema>;
+
 // Frequent itemset schema
 export const frequentItemsetSchema = z.object({
   id: z.number(),
@@ -53,12 +379,45 @@ export const frequentItemsetSchema = z.object({
   itemset: z.array(z.string()),
   support: z.number(),
   frequency: z.number(),
-  algorithm: z.enum(['apriori', 'fp-growth']),
+  is_closed: z.boolean(), // No superset has the same support
+  is_maximal: z.boolean(), // No superset is frequent
+  algorithm: algorithmSchema,
   created_at: z.coerce.date()
 });
 
 export type FrequentItemset = z.infer<typeof frequentItemsetSchema>;
 
+// Rule interestingness measures beyond support, confidence and lift.
+// Conviction is infinite for rules that always hold and is stored as null.
+export const ruleMeasuresSchema = z.object({
+  leverage: z.number(),
+  conviction: z.number().nullable(),
+  zhang: z.number(),
+  jaccard: z.number(),
+  cosine: z.number(),
+  kulczynski: z.number(),
+  imbalance_ratio: z.number(),
+  all_confidence: z.number()
+});
+
+export type RuleMeasures = z.infer<typeof ruleMeasuresSchema>;
+
+// Whether antecedent and consequent occur together more often than
+// chance: chi-square and a one-sided Fisher's exact test on the rule's 2×2
+// table, with p-values corrected across all rules of the analysis
+export const ruleSignificanceSchema = z.object({
+  chi_square: z.number(),
+  p_value: z.number(),
+  p_bonferroni: z.number(),
+  p_benjamini_hochberg: z.number()
+});
+
+export type RuleSignificance = z.infer<typeof ruleSignificanceSchema>;
+
+export const pValueCorrectionSchema = z.enum(['none', 'bonferroni', 'benjamini_hochberg']);
+
+export type PValueCorrection = z.infer<typeof pValueCorrectionSchema>;
+
 // Association rule schema
 export const associationRuleSchema = z.object({
   id: z.number(),
@@ -68,22 +427,60 @@ export const associationRuleSchema = z.object({
   support: z.number(),
   confidence: z.number(),
   lift: z.number(),
-  algorithm: z.enum(['apriori', 'fp-growth']),
+  measures: ruleMeasuresSchema.nullable(), // Null for rules mined before measures were stored
+  significance: ruleSignificanceSchema.nullable(), // Likewise
+  algorithm: algorithmSchema,
   created_at: z.coerce.date()
 });
 
 export type AssociationRule = z.infer<typeof associationRuleSchema>;
 
+// Transactions behind a rule, from the file its analysis ran on:
+// 'supporting' ones contain antecedent ∪ consequent, 'counter_examples'
+// contain the antecedent but not the whole consequent
+export const ruleTransactionKindSchema = z.enum(['supporting', 'counter_examples']);
+
+export type RuleTransactionKind = z.infer<typeof ruleTransactionKindSchema>;
+
+export const getRuleTransactionsInputSchema = z.object({
+  ruleId: z.number(),
+  kind: ruleTransactionKindSchema.optional(), // Defaults to 'supporting'
+  page: z.number().int().positive().optional(),
+  page_size: z.number().int().positive().max(200).optional()
+});
+
+export type GetRuleTransactionsInput = z.infer<typeof getRuleTransactionsInputSchema>;
+
+export const ruleTransactionsSchema = z.object({
+  rule: associationRuleSchema,
+  supporting_count: z.number().int(),
+  counter_example_count: z.number().int(),
+  transactions: z.array(transactionSchema), // One page of the requested kind
+  page: z.number().int(),
+  page_size: z.number().int()
+});
+
+export type RuleTransactions = z.infer<typeof ruleTransactionsSchema>;
+
 // Analysis result schema
 export const analysisResultSchema = z.object({
   id: z.number(),
   file_upload_id: z.number(),
-  algorithm: z.enum(['apriori', 'fp-growth']),
+  algorithm: algorithmSchema,
   min_support: z.number(),
   min_confidence: z.number(),
+  output_mode: outputModeSchema,
+  top_k: topKSchema.nullable(),
+  rule_pruning: rulePruningSchema.nullable(),
+  item_constraints: itemConstraintsSchema.nullable(),
+  max_itemset_length: z.number().int().nullable(),
+  max_antecedent_size: z.number().int().nullable(),
+  max_consequent_size: z.number().int().nullable(),
+  effective_min_support: z.number().nullable(), // The support the itemsets were mined at
   status: z.enum(['pending', 'processing', 'completed', 'failed']),
   summary: z.string().nullable(),
   error_message: z.string().nullable(),
+  is_stale: z.boolean(), // The file's transactions changed after this analysis ran
   created_at: z.coerce.date(),
   completed_at: z.coerce.date().nullable()
 });
@@ -93,18 +490,28 @@ export type AnalysisResult = z.infer<typeof analysisResultSchema>;
 // Input schemas for analysis
 export const createAnalysisInputSchema = z.object({
   file_upload_id: z.number(),
-  algorithm: z.enum(['apriori', 'fp-growth']),
+  algorithm: algorithmSchema,
   min_support: z.number().min(0).max(1),
-  min_confidence: z.number().min(0).max(1)
+  min_confidence: z.number().min(0).max(1),
+  output_mode: outputModeSchema.optional(), // Defaults to 'all'
+  top_k: topKSchema.optional(), // min_support is then the lowest support searched
+  rule_pruning: rulePruningSchema.optional(),
+  item_constraints: itemConstraintsSchema.optional(),
+  // Size limits; miners stop growing itemsets at the length limit, so
+  // closed and maximal itemsets are judged among the shorter ones
+  max_itemset_length: z.number().int().min(1).optional(),
+  max_antecedent_size: z.number().int().min(1).optional(),
+  max_consequent_size: z.number().int().min(1).optional()
 });
 
 export type CreateAnalysisInput = z.infer<typeof createAnalysisInputSchema>;
 
 // Analysis parameters schema
 export const analysisParametersSchema = z.object({
-  algorithm: z.enum(['apriori', 'fp-growth']),
+  algorithm: algorithmSchema,
   min_support: z.number().min(0).max(1),
-  min_confidence: z.number().min(0).max(1)
+  min_confidence: z.number().min(0).max(1),
+  output_mode: outputModeSchema
 });
 
 export type AnalysisParameters = z.infer<typeof analysisParametersSchema>;
@@ -115,7 +522,7 @@ export const dashboardDataSchema = z.object({
   frequent_itemsets: z.array(frequentItemsetSchema),
   association_rules: z.array(associationRuleSchema),
   summary: z.string().nullable(),
-  algorithm: z.enum(['apriori', 'fp-growth']),
+  algorithm: algorithmSchema,
   parameters: analysisParametersSchema
 });
 
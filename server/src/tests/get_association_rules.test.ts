@@ -192,4 +192,44 @@ describe('getAssociationRules', () => {
     expect(results1[0].analysis_id).toEqual(analysis1[0].id);
     expect(results2[0].analysis_id).toEqual(analysis2[0].id);
   });
+
+  it('should return stored measures and null for rules without them', async () => {
+    const fileUploadResult = await db.insert(fileUploadsTable)
+      .values(testFileUpload)
+      .returning()
+      .execute();
+
+    const analysisResult = await db.insert(analysisResultsTable)
+      .values({
+        ...testAnalysisResult,
+        file_upload_id: fileUploadResult[0].id
+      })
+      .returning()
+      .execute();
+
+    const measures = {
+      leverage: 0.05,
+      conviction: null,
+      zhang: 1,
+      jaccard: 0.5,
+      cosine: 0.7,
+      kulczynski: 0.75,
+      imbalance_ratio: 0.5,
+      all_confidence: 0.5
+    };
+
+    await db.insert(associationRulesTable)
+      .values([
+        { ...testAssociationRules[0], analysis_id: analysisResult[0].id, measures },
+        { ...testAssociationRules[1], analysis_id: analysisResult[0].id }
+      ])
+      .execute();
+
+    const results = await getAssociationRules(analysisResult[0].id);
+
+    const withMeasures = results.find(rule => rule.antecedent[0] === 'bread');
+    const withoutMeasures = results.find(rule => rule.antecedent[0] === 'milk');
+    expect(withMeasures?.measures).toEqual(measures);
+    expect(withoutMeasures?.measures).toBeNull();
+  });
 });
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable, transactionsTable } from '../db/schema';
+import { getDatasetStats } from '../handlers/get_dataset_stats';
+
+const createTestFileUpload = async () => {
+  const result = await db.insert(fileUploadsTable)
+    .values({
+      filename: 'stats.csv',
+      original_name: 'stats.csv',
+      file_size: 1024,
+      mime_type: 'text/csv',
+      file_path: '/tmp/stats.csv',
+      status: 'completed'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const createTransactions = async (fileUploadId: number, baskets: string[][]) => {
+  await db.insert(transactionsTable)
+    .values(baskets.map((items, index) => ({
+      file_upload_id: fileUploadId,
+      transaction_id: `T${index + 1}`,
+      items
+    })))
+    .execute();
+};
+
+describe('getDatasetStats', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should compute counts, basket sizes and density', async () => {
+    const fileUpload = await createTestFileUpload();
+    await createTransactions(fileUpload.id, [
+      ['Bread', 'Milk'],
+      ['Bread', 'Eggs', 'Butter'],
+      ['Milk'],
+      ['Bread', 'Milk', 'Eggs', 'Butter']
+    ]);
+
+    const stats = await getDatasetStats(fileUpload.id);
+
+    expect(stats.file_upload_id).toEqual(fileUpload.id);
+    expect(stats.transaction_count).toEqual(4);
+    expect(stats.item_count).toEqual(10);
+    expect(stats.distinct_item_count).toEqual(4);
+    expect(stats.average_basket_size).toEqual(2.5);
+    expect(stats.median_basket_size).toEqual(2.5);
+    expect(stats.max_basket_size).toEqual(4);
+    expect(stats.density).toBeCloseTo(0.625, 6);
+    expect(stats.basket_sizes).toEqual([
+      { size: 1, count: 1 },
+      { size: 2, count: 1 },
+      { size: 3, count: 1 },
+      { size: 4, count: 1 }
+    ]);
+  });
+
+  it('should rank items by the share of transactions containing them', async () => {
+    const fileUpload = await createTestFileUpload();
+    await createTransactions(fileUpload.id, [
+      ['Bread', 'Milk'],
+      ['Bread', 'Bread', 'Eggs'], // Stored before items were deduplicated
+      ['Milk', 'Bread']
+    ]);
+
+    const stats = await getDatasetStats(fileUpload.id);
+
+    expect(stats.item_frequencies).toEqual([
+      { item: 'Bread', count: 3, support: 1 },
+      { item: 'Milk', count: 2, support: 2 / 3 },
+      { item: 'Eggs', count: 1, support: 1 / 3 }
+    ]);
+    expect(stats.median_basket_size).toEqual(2);
+  });
+
+  it('should only count the chosen file and return zeros without transactions', async () => {
+    const fileUpload = await createTestFileUpload();
+    const otherUpload = await createTestFileUpload();
+    await createTransactions(otherUpload.id, [['Bread']]);
+
+    const stats = await getDatasetStats(fileUpload.id);
+
+    expect(stats.transaction_count).toEqual(0);
+    expect(stats.distinct_item_count).toEqual(0);
+    expect(stats.density).toEqual(0);
+    expect(stats.median_basket_size).toEqual(0);
+    expect(stats.basket_sizes).toEqual([]);
+    expect(stats.item_frequencies).toEqual([]);
+  });
+
+  it('should reject unknown file uploads', async () => {
+    expect(getDatasetStats(99999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable, ingestionReportsTable } from '../db/schema';
+import { getIngestionReport } from '../handlers/get_ingestion_report';
+import { processExcelFile } from '../handlers/process_excel_file';
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+
+const testDir = '/tmp/test_report_uploads';
+
+const createTestFileUpload = async (fileName: string, content: string) => {
+  await mkdir(testDir, { recursive: true });
+  const filePath = join(testDir, fileName);
+  await writeFile(filePath, content);
+
+  const result = await db.insert(fileUploadsTable)
+    .values({
+      filename: fileName,
+      original_name: fileName,
+      file_size: content.length,
+      mime_type: 'text/csv',
+      file_path: filePath
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('getIngestionReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report rows read, skipped rows and basket statistics', async () => {
+    const fileUpload = await createTestFileUpload('quality.csv', [
+      'Transaction ID,Item 1,Item 2,Item 3',
+      'T001,Bread,Milk,Eggs',
+      'T002,Bread,,',
+      ',Milk,Butter,',
+      'T003,,,',
+      'T004',
+      'T005,Milk,N/A,null',
+      'T001,Butter,,'
+    ].join('\n'));
+
+    await processExcelFile(fileUpload.id);
+    const report = await getIngestionReport(fileUpload.id);
+
+    expect(report).not.toBeNull();
+    expect(report!.file_upload_id).toEqual(fileUpload.id);
+    expect(report!.rows_read).toEqual(7);
+    expect(report!.skipped_rows).toEqual({ no_id: 1, no_items: 1, too_short: 1, emptied_by_normalization: 0 });
+    expect(report!.transaction_count).toEqual(3);
+    expect(report!.duplicate_transaction_count).toEqual(1);
+    expect(report!.distinct_item_count).toEqual(5);
+    expect(report!.basket_sizes).toEqual([
+      { size: 1, count: 1 },
+      { size: 2, count: 1 },
+      { size: 4, count: 1 }
+    ]);
+    expect(report!.top_items.slice(0, 2)).toEqual([
+      { item: 'Bread', count: 2 },
+      { item: 'Milk', count: 2 }
+    ]);
+    expect(report!.suspicious_values).toEqual([
+      { value: 'N/A', count: 1 },
+      { value: 'null', count: 1 }
+    ]);
+    expect(report!.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should account for every row read, including baskets emptied by normalization', async () => {
+    const fileUpload = await createTestFileUpload('emptied.csv', [
+      'Transaction ID,Item 1,Item 2',
+      'T001,Bread,Milk',
+      'T002,bag,',
+      'T003,Eggs,bag',
+      'T003,Butter,'
+    ].join('\n'));
+
+    await processExcelFile(fileUpload.id, {
+      normalization: { rewrites: [{ pattern: '^bag$', replacement: '' }] }
+    });
+    const report = await getIngestionReport(fileUpload.id);
+
+    expect(report!.rows_read).toEqual(4);
+    expect(report!.skipped_rows).toEqual({ no_id: 0, no_items: 0, too_short: 0, emptied_by_normalization: 1 });
+    expect(report!.transaction_count).toEqual(2);
+    expect(report!.duplicate_transaction_count).toEqual(1);
+
+    const skippedTotal = Object.values(report!.skipped_rows).reduce((total, count) => total + count, 0);
+    expect(skippedTotal + report!.duplicate_transaction_count + report!.transaction_count).toEqual(report!.rows_read);
+  });
+
+  it('should keep only the report of the latest run', async () => {
+    const fileUpload = await createTestFileUpload('rerun.csv', 'Transaction ID,Item 1\nT001,Bread\nT002,Milk\n');
+
+    await processExcelFile(fileUpload.id);
+    await processExcelFile(fileUpload.id, {
+      mode: 'replace',
+      column_mapping: { layout: 'wide', id_column: 0, has_header: false }
+    });
+
+    const report = await getIngestionReport(fileUpload.id);
+    const reports = await db.select().from(ingestionReportsTable).execute();
+
+    expect(reports).toHaveLength(1);
+    expect(report!.rows_read).toEqual(3);
+    expect(report!.transaction_count).toEqual(3);
+  });
+
+  it('should return null for files that were never processed', async () => {
+    const fileUpload = await createTestFileUpload('pending.csv', 'Transaction ID,Item 1\nT001,Bread\n');
+
+    expect(await getIngestionReport(fileUpload.id)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable, transactionsTable, analysisResultsTable, associationRulesTable } from '../db/schema';
+import { getRuleTransactions } from '../handlers/get_rule_transactions';
+
+const testFileUpload = {
+  filename: 'test.csv',
+  original_name: 'test.csv',
+  file_size: 1024,
+  mime_type: 'text/csv',
+  file_path: '/uploads/test.csv',
+  status: 'completed' as const
+};
+
+// Creates a file with the given baskets, an analysis of it and the rule
+// antecedent => consequent
+const createRule = async (baskets: string[][], antecedent: string[], consequent: string[]) => {
+  const [fileUpload] = await db.insert(fileUploadsTable).values(testFileUpload).returning().execute();
+
+  await db.insert(transactionsTable)
+    .values(baskets.map((items, index) => ({
+      file_upload_id: fileUpload.id,
+      transaction_id: `T${index + 1}`,
+      items
+    })))
+    .execute();
+
+  const [analysis] = await db.insert(analysisResultsTable)
+    .values({
+      file_upload_id: fileUpload.id,
+      algorithm: 'apriori',
+      min_support: '0.1',
+      min_confidence: '0.5',
+      status: 'completed'
+    })
+    .returning()
+    .execute();
+
+  const [rule] = await db.insert(associationRulesTable)
+    .values({
+      analysis_id: analysis.id,
+      antecedent,
+      consequent,
+      support: '0.5',
+      confidence: '0.6',
+      lift: '1.2',
+      algorithm: 'apriori'
+    })
+    .returning()
+    .execute();
+
+  return rule;
+};
+
+const baskets = [
+  ['bread', 'butter', 'milk'],
+  ['bread', 'milk'],
+  ['bread', 'butter'],
+  ['milk', 'butter'],
+  ['bread', 'milk', 'jam']
+];
+
+describe('getRuleTransactions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return transactions containing the antecedent and consequent', async () => {
+    const rule = await createRule(baskets, ['bread'], ['milk']);
+
+    const result = await getRuleTransactions({ ruleId: rule.id });
+
+    expect(result.rule.id).toEqual(rule.id);
+    expect(result.rule.antecedent).toEqual(['bread']);
+    expect(result.rule.confidence).toEqual(0.6);
+    expect(result.supporting_count).toEqual(3);
+    expect(result.counter_example_count).toEqual(1);
+    expect(result.transactions.map(t => t.transaction_id)).toEqual(['T1', 'T2', 'T5']);
+    expect(result.transactions[0].items).toEqual(['bread', 'butter', 'milk']);
+  });
+
+  it('should return counter-examples missing part of the consequent', async () => {
+    const rule = await createRule(baskets, ['bread'], ['milk', 'butter']);
+
+    const result = await getRuleTransactions({ ruleId: rule.id, kind: 'counter_examples' });
+
+    expect(result.supporting_count).toEqual(1);
+    expect(result.counter_example_count).toEqual(3);
+    expect(result.transactions.map(t => t.transaction_id)).toEqual(['T2', 'T3', 'T5']);
+  });
+
+  it('should only read the analysed file and page the results', async () => {
+    await createRule([['bread', 'milk'], ['bread', 'milk']], ['bread'], ['milk']);
+    const rule = await createRule(baskets, ['bread'], ['milk']);
+
+    const result = await getRuleTransactions({ ruleId: rule.id, page: 2, page_size: 2 });
+
+    expect(result.supporting_count).toEqual(3);
+    expect(result.page).toEqual(2);
+    expect(result.transactions.map(t => t.transaction_id)).toEqual(['T5']);
+  });
+
+  it('should reject unknown rules', async () => {
+    expect(getRuleTransactions({ ruleId: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable, transactionsTable } from '../db/schema';
+import { getTransactions } from '../handlers/get_transactions';
+
+const createTestFileUpload = async () => {
+  const result = await db.insert(fileUploadsTable)
+    .values({
+      filename: 'baskets.csv',
+      original_name: 'baskets.csv',
+      file_size: 1024,
+      mime_type: 'text/csv',
+      file_path: '/tmp/baskets.csv',
+      status: 'completed'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const createTransactions = async (fileUploadId: number, baskets: [string, string[]][]) => {
+  await db.insert(transactionsTable)
+    .values(baskets.map(([transactionId, items]) => ({
+      file_upload_id: fileUploadId,
+      transaction_id: transactionId,
+      items
+    })))
+    .execute();
+};
+
+describe('getTransactions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should page through a file\'s transactions in order', async () => {
+    const fileUpload = await createTestFileUpload();
+    const otherUpload = await createTestFileUpload();
+    await createTransactions(fileUpload.id, Array.from({ length: 5 }, (_, i): [string, string[]] => [`T${i + 1}`, ['Bread']]));
+    await createTransactions(otherUpload.id, [['X1', ['Bread']]]);
+
+    const firstPage = await getTransactions({ fileUploadId: fileUpload.id, page_size: 2 });
+    const lastPage = await getTransactions({ fileUploadId: fileUpload.id, page: 3, page_size: 2 });
+
+    expect(firstPage.total).toEqual(5);
+    expect(firstPage.page).toEqual(1);
+    expect(firstPage.page_size).toEqual(2);
+    expect(firstPage.transactions.map(t => t.transaction_id)).toEqual(['T1', 'T2']);
+    expect(firstPage.transactions[0].items).toEqual(['Bread']);
+    expect(firstPage.transactions[0].created_at).toBeInstanceOf(Date);
+    expect(lastPage.transactions.map(t => t.transaction_id)).toEqual(['T5']);
+  });
+
+  it('should search transaction IDs case-insensitively and literally', async () => {
+    const fileUpload = await createTestFileUpload();
+    await createTransactions(fileUpload.id, [
+      ['ORD-100', ['Bread']],
+      ['ord-101', ['Milk']],
+      ['ORD_200', ['Eggs']],
+      ['ORDX200', ['Eggs']]
+    ]);
+
+    const byPrefix = await getTransactions({ fileUploadId: fileUpload.id, transaction_id: 'ord-10' });
+    const withUnderscore = await getTransactions({ fileUploadId: fileUpload.id, transaction_id: '_2' });
+
+    expect(byPrefix.transactions.map(t => t.transaction_id)).toEqual(['ORD-100', 'ord-101']);
+    expect(withUnderscore.transactions.map(t => t.transaction_id)).toEqual(['ORD_200']);
+  });
+
+  it('should filter baskets containing all or any of the given items', async () => {
+    const fileUpload = await createTestFileUpload();
+    await createTransactions(fileUpload.id, [
+      ['T1', ['Bread', 'Milk']],
+      ['T2', ['Bread', 'Eggs']],
+      ['T3', ['Milk', 'Butter']],
+      ['T4', ['Bread', 'Milk', 'Eggs']]
+    ]);
+
+    const all = await getTransactions({ fileUploadId: fileUpload.id, contains_all: ['Bread', 'Milk'] });
+    const any = await getTransactions({ fileUploadId: fileUpload.id, contains_any: ['Eggs', 'Butter'] });
+    const combined = await getTransactions({
+      fileUploadId: fileUpload.id,
+      contains_all: ['Bread'],
+      contains_any: ['Eggs', 'Butter']
+    });
+
+    expect(all.transactions.map(t => t.transaction_id)).toEqual(['T1', 'T4']);
+    expect(all.total).toEqual(2);
+    expect(any.transactions.map(t => t.transaction_id)).toEqual(['T2', 'T3', 'T4']);
+    expect(combined.transactions.map(t => t.transaction_id)).toEqual(['T2', 'T4']);
+  });
+
+  it('should return an empty page past the last match', async () => {
+    const fileUpload = await createTestFileUpload();
+    await createTransactions(fileUpload.id, [['T1', ['Bread']]]);
+
+    const result = await getTransactions({ fileUploadId: fileUpload.id, page: 4 });
+
+    expect(result.total).toEqual(1);
+    expect(result.transactions).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable } from '../db/schema';
+import { getWorkbookSheets } from '../handlers/get_workbook_sheets';
+import { buildXlsx } from './spreadsheet_fixtures';
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+
+const testDir = '/tmp/test_sheet_uploads';
+
+const createTestFileUpload = async (fileName: string, content: string | Buffer) => {
+  await mkdir(testDir, { recursive: true });
+  const filePath = join(testDir, fileName);
+  await writeFile(filePath, content);
+
+  const result = await db.insert(fileUploadsTable)
+    .values({
+      filename: fileName,
+      original_name: fileName,
+      file_size: content.length,
+      mime_type: 'application/octet-stream',
+      file_path: filePath
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('getWorkbookSheets', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list every sheet with its row count', async () => {
+    const fileUpload = await createTestFileUpload('months.xlsx', buildXlsx([
+      { name: 'January', rows: [['Transaction ID', 'Item 1'], ['T001', 'Bread'], ['T002', 'Milk']] },
+      { name: 'February', rows: [['Transaction ID', 'Item 1'], ['T003', 'Eggs']] },
+      { name: 'Notes', rows: [] }
+    ]));
+
+    const sheets = await getWorkbookSheets(fileUpload.id);
+
+    expect(sheets).toEqual([
+      { name: 'January', row_count: 3 },
+      { name: 'February', row_count: 2 },
+      { name: 'Notes', row_count: 0 }
+    ]);
+  });
+
+  it('should report CSV files as a single sheet', async () => {
+    const fileUpload = await createTestFileUpload('baskets.csv', 'Transaction ID,Item 1\nT001,Bread\n');
+
+    const sheets = await getWorkbookSheets(fileUpload.id);
+
+    expect(sheets).toHaveLength(1);
+    expect(sheets[0].row_count).toEqual(2);
+  });
+
+  it('should reject unknown file uploads', async () => {
+    expect(getWorkbookSheets(99999)).rejects.toThrow(/not found/i);
+  });
+});
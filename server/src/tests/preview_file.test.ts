@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable } from '../db/schema';
+import { previewFile } from '../handlers/preview_file';
+import { buildXlsx } from './spreadsheet_fixtures';
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+
+const testDir = '/tmp/test_preview_uploads';
+
+const createTestFileUpload = async (fileName: string, content: string | Buffer) => {
+  await mkdir(testDir, { recursive: true });
+  const filePath = join(testDir, fileName);
+  await writeFile(filePath, content);
+
+  const result = await db.insert(fileUploadsTable)
+    .values({
+      filename: fileName,
+      original_name: fileName,
+      file_size: content.length,
+      mime_type: 'text/csv',
+      file_path: filePath
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('previewFile', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the first rows with detected headers', async () => {
+    const fileUpload = await createTestFileUpload('orders.csv', [
+      'Order,Product,Quantity',
+      'T001,Bread,1',
+      'T001,Milk,2',
+      'T002,Eggs,12'
+    ].join('\n'));
+
+    const preview = await previewFile({ fileUploadId: fileUpload.id });
+
+    expect(preview.file_upload_id).toEqual(fileUpload.id);
+    expect(preview.format).toEqual('csv');
+    expect(preview.has_header).toBe(true);
+    expect(preview.headers).toEqual(['Order', 'Product', 'Quantity']);
+    expect(preview.rows).toHaveLength(4);
+    expect(preview.rows[1]).toEqual(['T001', 'Bread', '1']);
+    expect(preview.column_mapping).toBeNull();
+  });
+
+  it('should limit the number of data rows', async () => {
+    const lines = ['Transaction ID,Item 1'];
+    for (let i = 1; i <= 50; i++) {
+      lines.push(`T${i},Item${i}`);
+    }
+    const fileUpload = await createTestFileUpload('many.csv', lines.join('\n'));
+
+    const preview = await previewFile({ fileUploadId: fileUpload.id, limit: 5 });
+
+    // The possible header row plus five data rows
+    expect(preview.rows).toHaveLength(6);
+    expect(preview.rows[5]).toEqual(['T5', 'Item5']);
+  });
+
+  it('should recognise a file without a header row', async () => {
+    const fileUpload = await createTestFileUpload('baskets.csv', [
+      'T001,Bread,Milk',
+      'T002,Bread,Eggs',
+      'T003,Milk,Butter'
+    ].join('\n'));
+
+    const preview = await previewFile({ fileUploadId: fileUpload.id });
+
+    expect(preview.has_header).toBe(false);
+    expect(preview.rows).toHaveLength(3);
+  });
+
+  it('should name blank header cells by position and preview workbooks', async () => {
+    const fileUpload = await createTestFileUpload('matrix.xlsx', buildXlsx([
+      {
+        name: 'Sheet1',
+        rows: [
+          ['', 'Bread', 'Milk'],
+          ['T001', 1, 0],
+          ['T002', 0, 1]
+        ]
+      }
+    ]));
+
+    const preview = await previewFile({ fileUploadId: fileUpload.id });
+
+    expect(preview.format).toEqual('xlsx');
+    expect(preview.headers).toEqual(['Column 1', 'Bread', 'Milk']);
+    expect(preview.has_header).toBe(true);
+    expect(preview.rows[1]).toEqual(['T001', '1', '0']);
+  });
+
+  it('should preview a chosen sheet', async () => {
+    const fileUpload = await createTestFileUpload('stores.xlsx', buildXlsx([
+      { name: 'North', rows: [['Transaction ID', 'Item 1'], ['T001', 'Bread']] },
+      { name: 'South', rows: [['Order', 'Product', 'Price'], ['T002', 'Milk', 1.5]] }
+    ]));
+
+    const preview = await previewFile({ fileUploadId: fileUpload.id, sheet: 'South' });
+
+    expect(preview.headers).toEqual(['Order', 'Product', 'Price']);
+    expect(preview.rows[1]).toEqual(['T002', 'Milk', '1.5']);
+
+    expect(previewFile({ fileUploadId: fileUpload.id, sheet: 'East' })).rejects.toThrow(/Sheet not found/);
+  });
+
+  it('should include the stored column mapping', async () => {
+    const fileUpload = await createTestFileUpload('stored.csv', 'Order,Product\nT001,Bread\n');
+    await db.update(fileUploadsTable)
+      .set({ column_mapping: { layout: 'long', id_column: 0, item_column: 1 } })
+      .execute();
+
+    const preview = await previewFile({ fileUploadId: fileUpload.id });
+
+    expect(preview.column_mapping).toEqual({ layout: 'long', id_column: 0, item_column: 1 });
+  });
+
+  it('should reject unknown file uploads', async () => {
+    expect(previewFile({ fileUploadId: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -2,9 +2,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { fileUploadsTable, transactionsTable } from '../db/schema';
+import { fileUploadsTable, transactionsTable, analysisResultsTable } from '../db/schema';
 import { processExcelFile } from '../handlers/process_excel_file';
-import { eq } from 'drizzle-orm';
+import { buildXlsx, buildXls } from './spreadsheet_fixtures';
+import { type CsvOptions } from '../schema';
+import { asc, eq } from 'drizzle-orm';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 
@@ -23,9 +25,17 @@ const createTestCSVFile = async (data: string[][]) => {
   await writeFile(testFilePath, csvContent);
 };
 
+const createTestWorkbookFile = async (fileName: string, content: Buffer) => {
+  await mkdir(testDir, { recursive: true });
+  const filePath = join(testDir, fileName);
+  await writeFile(filePath, content);
+  return filePath;
+};
+
 const createTestFileUpload = async (
   status: 'pending' | 'processing' | 'completed' | 'failed' = 'pending',
-  customPath?: string
+  customPath?: string,
+  csvOptions: CsvOptions | null = null
 ) => {
   const result = await db.insert(fileUploadsTable)
     .values({
@@ -34,6 +44,7 @@ const createTestFileUpload = async (
       file_size: 1024,
       mime_type: 'text/csv',
       file_path: customPath || testFilePath,
+      csv_options: csvOptions,
       status
     })
     .returning()
@@ -42,6 +53,13 @@ const createTestFileUpload = async (
   return result[0];
 };
 
+// Rows stored for an upload, in insertion order
+const loadTransactions = (fileUploadId: number) => db.select()
+  .from(transactionsTable)
+  .where(eq(transactionsTable.file_upload_id, fileUploadId))
+  .orderBy(asc(transactionsTable.id))
+  .execute();
+
 describe('processExcelFile', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -60,7 +78,8 @@ describe('processExcelFile', () => {
     const fileUpload = await createTestFileUpload();
     
     // Process the file
-    const transactions = await processExcelFile(fileUpload.id);
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
     
     // Verify results
     expect(transactions).toHaveLength(3);
@@ -131,7 +150,8 @@ describe('processExcelFile', () => {
     
     const fileUpload = await createTestFileUpload();
     
-    const transactions = await processExcelFile(fileUpload.id);
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
     
     expect(transactions).toHaveLength(2);
     expect(transactions[0].transaction_id).toEqual('T001');
@@ -197,7 +217,8 @@ describe('processExcelFile', () => {
     
     const fileUpload = await createTestFileUpload();
     
-    const transactions = await processExcelFile(fileUpload.id);
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
     
     expect(transactions).toHaveLength(1);
     expect(transactions[0].transaction_id).toEqual('T001');
@@ -213,9 +234,868 @@ describe('processExcelFile', () => {
     
     const fileUpload = await createTestFileUpload();
     
-    const transactions = await processExcelFile(fileUpload.id);
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
     
     expect(transactions[0].transaction_id).toEqual('T001');
     expect(transactions[0].items).toEqual(['Apple', 'Banana']);
   });
+
+  it('should process a real .xlsx workbook', async () => {
+    const filePath = await createTestWorkbookFile('transactions.xlsx', buildXlsx([{
+      name: 'POS Export',
+      rows: [
+        ['Transaction ID', 'Item 1', 'Item 2', 'Item 3'],
+        ['T001', 'Bread', 'Milk & Honey', null],
+        [1002, 'Butter', 'Crème fraîche', 'Eggs'],
+        ['T003', 'Milk', new Date(Date.UTC(2024, 2, 15)), 'Cheese']
+      ]
+    }]));
+
+    const fileUpload = await createTestFileUpload('pending', filePath);
+
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Bread', 'Milk & Honey']);
+    expect(transactions[1].transaction_id).toEqual('1002');
+    expect(transactions[1].items).toEqual(['Butter', 'Crème fraîche', 'Eggs']);
+    expect(transactions[2].items).toEqual(['Milk', '2024-03-15', 'Cheese']);
+  });
+
+  it('should process a legacy .xls workbook', async () => {
+    const filePath = await createTestWorkbookFile('transactions.xls', buildXls([{
+      name: 'Sheet1',
+      rows: [
+        ['Transaction ID', 'Item 1', 'Item 2'],
+        ['T001', 'Bread', 'Milk'],
+        [1002, 'Butter', 2.5],
+        ['T003', 'Käse', new Date(Date.UTC(2023, 11, 31))]
+      ]
+    }]));
+
+    const fileUpload = await createTestFileUpload('pending', filePath);
+
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+    expect(transactions[1].transaction_id).toEqual('1002');
+    expect(transactions[1].items).toEqual(['Butter', '2.5']);
+    expect(transactions[2].items).toEqual(['Käse', '2023-12-31']);
+  });
+
+  it('should fail on a corrupt workbook', async () => {
+    const corrupt = buildXlsx([{ name: 'Sheet1', rows: [['T001', 'Bread']] }]).subarray(0, 200);
+    const filePath = await createTestWorkbookFile('corrupt.xlsx', corrupt);
+
+    const fileUpload = await createTestFileUpload('pending', filePath);
+
+    await expect(processExcelFile(fileUpload.id)).rejects.toThrow(/corrupt archive/i);
+
+    const updatedFile = await db.select()
+      .from(fileUploadsTable)
+      .where(eq(fileUploadsTable.id, fileUpload.id))
+      .execute();
+
+    expect(updatedFile[0].status).toEqual('failed');
+  });
+
+  it('should parse quoted fields with delimiters, line breaks and escaped quotes', async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(testFilePath, [
+      'Transaction ID,Item 1,Item 2',
+      'T001,"Milk, 1L","Cookies ""Deluxe"""',
+      'T002,"Gift card',
+      'with note",Bread',
+      ''
+    ].join('\r\n'));
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].items).toEqual(['Milk, 1L', 'Cookies "Deluxe"']);
+    expect(transactions[1].items).toEqual(['Gift card\r\nwith note', 'Bread']);
+  });
+
+  it('should detect semicolon delimiters and a UTF-8 byte order mark', async () => {
+    await mkdir(testDir, { recursive: true });
+    const content = 'Transaction ID;Item 1;Item 2\nT001;Käse;Brot, frisch\nT002;Milch;Äpfel\n';
+    await writeFile(testFilePath, Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(content, 'utf-8')]));
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Käse', 'Brot, frisch']);
+    expect(transactions[1].items).toEqual(['Milch', 'Äpfel']);
+  });
+
+  it('should detect tab delimited UTF-16 files', async () => {
+    await mkdir(testDir, { recursive: true });
+    const content = '\ufeffTransaction ID\tItem 1\tItem 2\nT001\tBread\tMilk\nT002\tEggs\tButter\n';
+    await writeFile(testFilePath, Buffer.from(content, 'utf16le'));
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+    expect(transactions[1].items).toEqual(['Eggs', 'Butter']);
+  });
+
+  it('should fall back to Windows-1252 for files that are not valid UTF-8', async () => {
+    await mkdir(testDir, { recursive: true });
+    // "Café" and "Crème" with single-byte accented characters
+    await writeFile(testFilePath, Buffer.concat([
+      Buffer.from('Transaction ID,Item 1,Item 2\nT001,Caf'),
+      Buffer.from([0xe9]),
+      Buffer.from(',Cr'),
+      Buffer.from([0xe8]),
+      Buffer.from('me\n')
+    ]));
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0].items).toEqual(['Café', 'Crème']);
+  });
+
+  it('should honour CSV options stored on the file upload', async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(testFilePath, 'Transaction ID|Item 1|Item 2\nT001|a,b|c\nT002|d,e|f\n');
+
+    const fileUpload = await createTestFileUpload('pending', undefined, { delimiter: '|' });
+
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].items).toEqual(['a,b', 'c']);
+    expect(transactions[1].items).toEqual(['d,e', 'f']);
+  });
+
+  it('should group long format rows into one transaction per basket', async () => {
+    const testData = [
+      ['Date', 'Order', 'Product', 'Quantity'],
+      ['2024-01-01', 'T001', 'Bread', '1'],
+      ['2024-01-01', 'T002', 'Milk', '2'],
+      ['2024-01-01', 'T001', 'Butter', '1'],
+      ['2024-01-02', '', 'Eggs', '1'], // Missing transaction ID - should be skipped
+      ['2024-01-02', 'T002', '', '1'], // Missing item - should be skipped
+      ['2024-01-02', 'T001', 'Jam', '1']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id, { column_mapping: { layout: 'long', id_column: 1, item_column: 2 } });
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Bread', 'Butter', 'Jam']);
+    expect(transactions[1].transaction_id).toEqual('T002');
+    expect(transactions[1].items).toEqual(['Milk']);
+
+    const dbTransactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.file_upload_id, fileUpload.id))
+      .execute();
+
+    expect(dbTransactions).toHaveLength(2);
+  });
+
+  it('should remember the column mapping on the file upload', async () => {
+    const testData = [
+      ['Order', 'Product'],
+      ['T001', 'Bread'],
+      ['T001', 'Milk']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id, { column_mapping: { layout: 'long', id_column: 0, item_column: 1 } });
+
+    const updatedFile = await db.select()
+      .from(fileUploadsTable)
+      .where(eq(fileUploadsTable.id, fileUpload.id))
+      .execute();
+
+    expect(updatedFile[0].column_mapping).toEqual({ layout: 'long', id_column: 0, item_column: 1 });
+
+    // Processing again without a mapping reuses the stored one
+    await db.delete(transactionsTable).where(eq(transactionsTable.file_upload_id, fileUpload.id)).execute();
+    await processExcelFile(fileUpload.id);
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+  });
+
+  it('should read the transaction ID from a chosen column in the wide layout', async () => {
+    const testData = [
+      ['Item 1', 'Item 2', 'Transaction ID'],
+      ['Bread', 'Milk', 'T001'],
+      ['Eggs', '', 'T002']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id, { column_mapping: { layout: 'wide', id_column: 2 } });
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+    expect(transactions[1].transaction_id).toEqual('T002');
+    expect(transactions[1].items).toEqual(['Eggs']);
+  });
+
+  it('should turn truthy cells of a binary matrix into header item names', async () => {
+    const testData = [
+      ['Transaction ID', 'Bread', 'Milk', 'Eggs', 'Butter'],
+      ['T001', '1', '0', '1', '0'],
+      ['T002', 'true', 'yes', 'false', 'no'],
+      ['T003', '0', '0', '0', '0'], // Nothing marked - should be skipped
+      ['T004', '', 'x', '', '2']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id, { column_mapping: { layout: 'binary', id_column: 0 } });
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Bread', 'Eggs']);
+    expect(transactions[1].transaction_id).toEqual('T002');
+    expect(transactions[1].items).toEqual(['Bread', 'Milk']);
+    expect(transactions[2].transaction_id).toEqual('T004');
+    expect(transactions[2].items).toEqual(['Milk', 'Butter']);
+  });
+
+  it('should number binary matrix rows when there is no ID column', async () => {
+    const testData = [
+      ['Bread', 'Milk', 'Eggs'],
+      ['1', '1', '0'],
+      ['0', '0', '1']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id, { column_mapping: { layout: 'binary', id_column: null } });
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].transaction_id).toEqual('1');
+    expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+    expect(transactions[1].transaction_id).toEqual('2');
+    expect(transactions[1].items).toEqual(['Eggs']);
+  });
+
+  it('should keep the first row as data when the mapping has no header', async () => {
+    const testData = [
+      ['T001', 'Bread', 'Milk'],
+      ['T002', 'Eggs', '']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id, { column_mapping: { layout: 'wide', has_header: false, id_column: 0 } });
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+  });
+
+  it('should only read chosen item columns and skip ignored ones', async () => {
+    const testData = [
+      ['Store', 'Transaction ID', 'Item 1', 'Item 2', 'Total', 'Item 3'],
+      ['North', 'T001', 'Bread', 'Milk', '4.50', 'Eggs'],
+      ['South', 'T002', 'Butter', '', '2.10', '']
+    ];
+    await createTestCSVFile(testData);
+
+    const ignoringTotal = await createTestFileUpload();
+    await processExcelFile(ignoringTotal.id, {
+      column_mapping: {
+        layout: 'wide',
+        id_column: 1,
+        item_columns: [2, 3, 4, 5],
+        ignored_columns: [4]
+      }
+    });
+    const transactions = await loadTransactions(ignoringTotal.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].transaction_id).toEqual('T001');
+    expect(transactions[0].items).toEqual(['Bread', 'Milk', 'Eggs']);
+    expect(transactions[1].items).toEqual(['Butter']);
+
+    // Without item_columns every column but the id and ignored ones holds items
+    const ignoringStore = await createTestFileUpload();
+    await processExcelFile(ignoringStore.id, {
+      column_mapping: {
+        layout: 'wide',
+        id_column: 1,
+        ignored_columns: [0, 4]
+      }
+    });
+    const allColumns = await loadTransactions(ignoringStore.id);
+
+    expect(allColumns[0].items).toEqual(['Bread', 'Milk', 'Eggs']);
+  });
+
+  it('should name binary matrix items by position without a header', async () => {
+    const testData = [
+      ['1', '0', '1'],
+      ['0', '1', '0']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    await processExcelFile(fileUpload.id, { column_mapping: { layout: 'binary', has_header: false, id_column: null } });
+    const transactions = await loadTransactions(fileUpload.id);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].items).toEqual(['Column 1', 'Column 3']);
+    expect(transactions[1].items).toEqual(['Column 2']);
+  });
+
+  describe('multi-sheet workbooks', () => {
+    const storeWorkbook = () => buildXlsx([
+      {
+        name: 'North',
+        rows: [
+          ['Transaction ID', 'Item 1', 'Item 2'],
+          ['T001', 'Bread', 'Milk']
+        ]
+      },
+      {
+        name: 'South',
+        rows: [
+          ['Transaction ID', 'Item 1', 'Item 2'],
+          ['T001', 'Eggs', 'Butter'],
+          ['T002', 'Jam', null]
+        ]
+      },
+      {
+        name: 'West',
+        rows: [
+          ['Transaction ID', 'Item 1'],
+          ['T003', 'Cheese']
+        ]
+      }
+    ]);
+
+    it('should read only the first sheet by default', async () => {
+      const filePath = await createTestWorkbookFile('stores.xlsx', storeWorkbook());
+      const fileUpload = await createTestFileUpload('pending', filePath);
+
+      await processExcelFile(fileUpload.id);
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+      expect(transactions[0].sheet_name).toEqual('North');
+    });
+
+    it('should concatenate all sheets and record each row\'s sheet', async () => {
+      const filePath = await createTestWorkbookFile('stores.xlsx', storeWorkbook());
+      const fileUpload = await createTestFileUpload('pending', filePath);
+
+      await processExcelFile(fileUpload.id, { sheets: 'all' });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions.map(t => [t.sheet_name, t.transaction_id])).toEqual([
+        ['North', 'T001'],
+        ['South', 'T001'],
+        ['South', 'T002'],
+        ['West', 'T003']
+      ]);
+
+      const dbTransactions = await db.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.sheet_name, 'South'))
+        .execute();
+
+      expect(dbTransactions).toHaveLength(2);
+    });
+
+    it('should read the chosen sheets and remember the selection', async () => {
+      const filePath = await createTestWorkbookFile('stores.xlsx', storeWorkbook());
+      const fileUpload = await createTestFileUpload('pending', filePath);
+
+      await processExcelFile(fileUpload.id, { sheets: ['West', 'South'] });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      // Sheets keep their workbook order
+      expect(transactions.map(t => t.sheet_name)).toEqual(['South', 'South', 'West']);
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+
+      expect(updatedFile[0].sheets).toEqual(['West', 'South']);
+    });
+
+    it('should fail for sheets missing from the workbook', async () => {
+      const filePath = await createTestWorkbookFile('stores.xlsx', storeWorkbook());
+      const fileUpload = await createTestFileUpload('pending', filePath);
+
+      await expect(processExcelFile(fileUpload.id, { sheets: ['East'] })).rejects.toThrow(/Sheet not found in workbook: East/);
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+
+      expect(updatedFile[0].status).toEqual('failed');
+    });
+
+    it('should leave the sheet name empty for CSV files', async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1'],
+        ['T001', 'Apple']
+      ]);
+      const fileUpload = await createTestFileUpload();
+
+      await processExcelFile(fileUpload.id, { sheets: 'all' });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions[0].sheet_name).toBeNull();
+    });
+  });
+
+  it('should return counts and basket statistics', async () => {
+    const testData = [
+      ['Transaction ID', 'Item 1', 'Item 2', 'Item 3'],
+      ['T001', 'Bread', 'Milk', 'Eggs'],
+      ['T002', 'Bread', '', ''],
+      ['T003', 'Milk', 'Butter', '']
+    ];
+    await createTestCSVFile(testData);
+
+    const fileUpload = await createTestFileUpload();
+
+    const summary = await processExcelFile(fileUpload.id);
+
+    expect(summary).toEqual({
+      file_upload_id: fileUpload.id,
+      transaction_count: 3,
+      item_count: 6,
+      distinct_item_count: 4,
+      average_basket_size: 2,
+      max_basket_size: 3,
+      duplicate_item_count: 0,
+      duplicate_transaction_count: 0,
+      replaced_transaction_count: 0,
+      stale_analysis_count: 0
+    });
+  });
+
+  it('should insert large files in batches', async () => {
+    const lines = ['Transaction ID,Item 1,Item 2'];
+    for (let i = 1; i <= 2500; i++) {
+      lines.push(`T${i},Item${i % 7},Item${i % 11}`);
+    }
+    await writeFile(testFilePath, lines.join('\n'));
+
+    const fileUpload = await createTestFileUpload();
+
+    const summary = await processExcelFile(fileUpload.id);
+
+    expect(summary.transaction_count).toEqual(2500);
+    const transactions = await loadTransactions(fileUpload.id);
+    expect(transactions).toHaveLength(2500);
+    expect(transactions[2499].transaction_id).toEqual('T2500');
+  });
+
+  it('should roll back every row when an insert fails part way through', async () => {
+    const lines = ['Transaction ID,Item 1'];
+    for (let i = 1; i <= 2500; i++) {
+      lines.push(`T${i},Item${i}`);
+    }
+    // JSONB rejects NUL characters, failing the last batch
+    lines.push('T2501,Broken\u0000Item');
+    await writeFile(testFilePath, lines.join('\n'));
+
+    const fileUpload = await createTestFileUpload();
+
+    await expect(processExcelFile(fileUpload.id)).rejects.toThrow();
+
+    const transactions = await loadTransactions(fileUpload.id);
+    expect(transactions).toHaveLength(0);
+
+    const updatedFile = await db.select()
+      .from(fileUploadsTable)
+      .where(eq(fileUploadsTable.id, fileUpload.id))
+      .execute();
+
+    expect(updatedFile[0].status).toEqual('failed');
+  });
+
+  describe('reprocessing', () => {
+    const createTestAnalysis = async (fileUploadId: number) => {
+      const result = await db.insert(analysisResultsTable)
+        .values({
+          file_upload_id: fileUploadId,
+          algorithm: 'apriori',
+          min_support: '0.1',
+          min_confidence: '0.5',
+          status: 'completed'
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    };
+
+    const processInitialFile = async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1', 'Item 2'],
+        ['T001', 'Bread', 'Milk'],
+        ['T002', 'Eggs', 'Butter']
+      ]);
+      const fileUpload = await createTestFileUpload();
+      await processExcelFile(fileUpload.id);
+      return fileUpload;
+    };
+
+    it('should refuse to process a file with transactions unless a mode is given', async () => {
+      const fileUpload = await processInitialFile();
+
+      await expect(processExcelFile(fileUpload.id)).rejects.toThrow(/already has 2 transactions/);
+
+      expect(await loadTransactions(fileUpload.id)).toHaveLength(2);
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+
+      expect(updatedFile[0].status).toEqual('completed');
+    });
+
+    it('should let only one of two concurrent first runs store transactions', async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1', 'Item 2'],
+        ['T001', 'Bread', 'Milk'],
+        ['T002', 'Eggs', 'Butter']
+      ]);
+      const fileUpload = await createTestFileUpload();
+
+      const results = await Promise.allSettled([
+        processExcelFile(fileUpload.id),
+        processExcelFile(fileUpload.id)
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(await loadTransactions(fileUpload.id)).toHaveLength(2);
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+
+      expect(updatedFile[0].status).toEqual('completed');
+    });
+
+    it('should replace existing transactions and flag earlier analyses as stale', async () => {
+      const fileUpload = await processInitialFile();
+      const analysis = await createTestAnalysis(fileUpload.id);
+
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1'],
+        ['T100', 'Cheese']
+      ]);
+      const summary = await processExcelFile(fileUpload.id, { mode: 'replace' });
+
+      expect(summary.transaction_count).toEqual(1);
+      expect(summary.replaced_transaction_count).toEqual(2);
+      expect(summary.stale_analysis_count).toEqual(1);
+
+      const transactions = await loadTransactions(fileUpload.id);
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0].transaction_id).toEqual('T100');
+
+      const updatedAnalysis = await db.select()
+        .from(analysisResultsTable)
+        .where(eq(analysisResultsTable.id, analysis.id))
+        .execute();
+
+      expect(updatedAnalysis[0].is_stale).toBe(true);
+    });
+
+    it('should append to existing transactions when asked', async () => {
+      const fileUpload = await processInitialFile();
+
+      const summary = await processExcelFile(fileUpload.id, { mode: 'append' });
+
+      expect(summary.transaction_count).toEqual(2);
+      expect(summary.replaced_transaction_count).toEqual(0);
+      expect(await loadTransactions(fileUpload.id)).toHaveLength(4);
+    });
+
+    it('should keep the previous transactions when replacing fails', async () => {
+      const fileUpload = await processInitialFile();
+      const analysis = await createTestAnalysis(fileUpload.id);
+
+      await writeFile(testFilePath, 'Transaction ID,Item 1\nT100,Broken\u0000Item\n');
+
+      await expect(processExcelFile(fileUpload.id, { mode: 'replace' })).rejects.toThrow();
+
+      const transactions = await loadTransactions(fileUpload.id);
+      expect(transactions.map(t => t.transaction_id)).toEqual(['T001', 'T002']);
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+      expect(updatedFile[0].status).toEqual('completed');
+
+      const updatedAnalysis = await db.select()
+        .from(analysisResultsTable)
+        .where(eq(analysisResultsTable.id, analysis.id))
+        .execute();
+      expect(updatedAnalysis[0].is_stale).toBe(false);
+    });
+
+    it('should keep the previous settings when replacing fails', async () => {
+      const fileUpload = await processInitialFile();
+
+      await expect(processExcelFile(fileUpload.id, {
+        mode: 'replace',
+        column_mapping: { layout: 'wide', id_column: 0, item_columns: [7] }
+      })).rejects.toThrow(/No valid transactions found/);
+
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1'],
+        ['T100', 'Cheese'],
+        ['T100', 'Wine']
+      ]);
+      await expect(processExcelFile(fileUpload.id, {
+        mode: 'replace',
+        normalization: { case: 'lower' },
+        deduplication: { duplicate_transactions: 'reject' }
+      })).rejects.toThrow(/appears in more than one row/);
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+
+      expect(updatedFile[0].status).toEqual('completed');
+      expect(updatedFile[0].column_mapping).toBeNull();
+      expect(updatedFile[0].normalization).toBeNull();
+      expect(updatedFile[0].deduplication).toBeNull();
+      expect((await loadTransactions(fileUpload.id)).map(t => t.transaction_id)).toEqual(['T001', 'T002']);
+    });
+  });
+
+  describe('item normalization', () => {
+    it('should only trim items without normalization rules', async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1', 'Item 2'],
+        ['T001', ' Milk ', 'MILK  1L']
+      ]);
+      const fileUpload = await createTestFileUpload();
+
+      await processExcelFile(fileUpload.id);
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions[0].items).toEqual(['Milk', 'MILK  1L']);
+    });
+
+    it('should fold case, collapse whitespace and normalize Unicode', async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1', 'Item 2', 'Item 3'],
+        ['T001', 'Whole   Milk', 'CAFE\u0301', '\ufb01g jam'] // Combining accent and an fi ligature
+      ]);
+      const fileUpload = await createTestFileUpload();
+
+      await processExcelFile(fileUpload.id, {
+        normalization: { unicode: 'NFKC', collapse_whitespace: true, case: 'lower' }
+      });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions[0].items).toEqual(['whole milk', 'café', 'fig jam']);
+    });
+
+    it('should apply rewrite rules and synonyms, dropping emptied items', async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1', 'Item 2', 'Item 3'],
+        ['T001', 'MILK 1L', 'Milk 500ml', 'Semi-skimmed'],
+        ['T002', 'n/a', 'Bread 800g', '']
+      ]);
+      const fileUpload = await createTestFileUpload();
+
+      await processExcelFile(fileUpload.id, {
+        normalization: {
+          rewrites: [
+            { pattern: '\\s*\\d+\\s*(ml|l|g|kg)$', replacement: '', flags: 'i' },
+            { pattern: '^n/a$', replacement: '', flags: 'i' }
+          ],
+          case: 'lower',
+          synonyms: { 'Semi-skimmed': 'milk' }
+        }
+      });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions[0].items).toEqual(['milk']);
+      expect(transactions[1].items).toEqual(['bread']);
+    });
+
+    it('should save the rules on the file upload and reuse them', async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1'],
+        ['T001', 'BREAD']
+      ]);
+      const fileUpload = await createTestFileUpload();
+
+      await processExcelFile(fileUpload.id, { normalization: { case: 'lower' } });
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+
+      expect(updatedFile[0].normalization).toEqual({ case: 'lower' });
+
+      await processExcelFile(fileUpload.id, { mode: 'replace' });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions[0].items).toEqual(['bread']);
+    });
+  });
+
+  describe('duplicates', () => {
+    it('should store each item once per transaction', async () => {
+      await createTestCSVFile([
+        ['Transaction ID', 'Item 1', 'Item 2', 'Item 3'],
+        ['T001', 'Bread', 'Bread', 'Milk']
+      ]);
+      const fileUpload = await createTestFileUpload();
+
+      const summary = await processExcelFile(fileUpload.id);
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+      expect(transactions[0].quantities).toBeNull();
+      expect(summary.item_count).toEqual(2);
+      expect(summary.duplicate_item_count).toEqual(1);
+    });
+
+    it('should keep item quantities when asked', async () => {
+      await writeFile(testFilePath, [
+        'Order,Product',
+        'T001,Bread',
+        'T001,Milk',
+        'T001,Bread',
+        'T002,2024'
+      ].join('\n'));
+      const fileUpload = await createTestFileUpload();
+
+      await processExcelFile(fileUpload.id, {
+        column_mapping: { layout: 'long', id_column: 0, item_column: 1 },
+        deduplication: { keep_quantities: true }
+      });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+      expect(transactions[0].quantities).toEqual({ Bread: 2, Milk: 1 });
+      expect(transactions[1].quantities).toEqual({ '2024': 1 });
+    });
+
+    const repeatedIds = [
+      ['Transaction ID', 'Item 1', 'Item 2'],
+      ['T001', 'Bread', 'Milk'],
+      ['T002', 'Eggs', ''],
+      ['T001', 'Milk', 'Butter']
+    ];
+
+    it('should merge rows that repeat a transaction ID by default', async () => {
+      await createTestCSVFile(repeatedIds);
+      const fileUpload = await createTestFileUpload();
+
+      const summary = await processExcelFile(fileUpload.id);
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions.map(t => t.transaction_id)).toEqual(['T001', 'T002']);
+      expect(transactions[0].items).toEqual(['Bread', 'Milk', 'Butter']);
+      expect(summary.duplicate_transaction_count).toEqual(1);
+      expect(summary.duplicate_item_count).toEqual(1);
+    });
+
+    it('should keep only the first row for a repeated transaction ID', async () => {
+      await createTestCSVFile(repeatedIds);
+      const fileUpload = await createTestFileUpload();
+
+      await processExcelFile(fileUpload.id, { deduplication: { duplicate_transactions: 'keep_first' } });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0].items).toEqual(['Bread', 'Milk']);
+    });
+
+    it('should reject repeated transaction IDs when asked', async () => {
+      await createTestCSVFile(repeatedIds);
+      const fileUpload = await createTestFileUpload();
+
+      await expect(processExcelFile(fileUpload.id, {
+        deduplication: { duplicate_transactions: 'reject' }
+      })).rejects.toThrow(/Transaction ID "T001" appears in more than one row/);
+
+      const transactions = await loadTransactions(fileUpload.id);
+      expect(transactions).toHaveLength(0);
+
+      const updatedFile = await db.select()
+        .from(fileUploadsTable)
+        .where(eq(fileUploadsTable.id, fileUpload.id))
+        .execute();
+
+      expect(updatedFile[0].status).toEqual('failed');
+      expect(updatedFile[0].deduplication).toBeNull();
+    });
+
+    it('should not treat the same ID on different sheets as a duplicate', async () => {
+      const filePath = await createTestWorkbookFile('duplicates.xlsx', buildXlsx([
+        { name: 'North', rows: [['Transaction ID', 'Item 1'], ['T001', 'Bread']] },
+        { name: 'South', rows: [['Transaction ID', 'Item 1'], ['T001', 'Milk']] }
+      ]));
+      const fileUpload = await createTestFileUpload('pending', filePath);
+
+      await processExcelFile(fileUpload.id, {
+        sheets: 'all',
+        deduplication: { duplicate_transactions: 'reject' }
+      });
+      const transactions = await loadTransactions(fileUpload.id);
+
+      expect(transactions).toHaveLength(2);
+    });
+  });
 });
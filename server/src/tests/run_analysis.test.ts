@@ -0,0 +1,729 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable, transactionsTable, analysisResultsTable, frequentItemsetsTable, associationRulesTable } from '../db/schema';
+import { type Algorithm, type CreateAnalysisInput } from '../schema';
+import { runAnalysis } from '../handlers/run_analysis';
+import { eq } from 'drizzle-orm';
+
+describe('runAnalysis', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const algorithms: Algorithm[] = ['apriori', 'fp-growth', 'eclat'];
+
+  const createTestData = async (baskets: string[][] = [
+    ['bread', 'milk'],
+    ['bread', 'butter', 'milk'],
+    ['bread', 'butter'],
+    ['milk', 'butter'],
+    ['bread', 'milk', 'butter', 'cheese']
+  ]) => {
+    const fileResults = await db.insert(fileUploadsTable)
+      .values({
+        filename: 'test-transactions.csv',
+        original_name: 'transactions.csv',
+        file_size: 1024,
+        mime_type: 'text/csv',
+        file_path: '/uploads/test.csv',
+        status: 'completed'
+      })
+      .returning()
+      .execute();
+
+    const fileUpload = fileResults[0];
+
+    if (baskets.length > 0) {
+      await db.insert(transactionsTable)
+        .values(baskets.map((items, index) => ({
+          file_upload_id: fileUpload.id,
+          transaction_id: `T${index + 1}`,
+          items
+        })))
+        .execute();
+    }
+
+    return fileUpload;
+  };
+
+  const testInput: CreateAnalysisInput = {
+    file_upload_id: 1,
+    algorithm: 'apriori',
+    min_support: 0.4,
+    min_confidence: 0.6
+  };
+
+  const loadResults = async (analysisId: number) => {
+    const itemsets = await db.select()
+      .from(frequentItemsetsTable)
+      .where(eq(frequentItemsetsTable.analysis_id, analysisId))
+      .execute();
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.analysis_id, analysisId))
+      .execute();
+
+    return {
+      itemsets: itemsets
+        .map(itemset => `${(itemset.itemset as string[]).join(',')}:${itemset.frequency}`)
+        .sort(),
+      rules: rules
+        .map(rule => `${(rule.antecedent as string[]).join(',')}=>${(rule.consequent as string[]).join(',')}:${parseFloat(rule.confidence).toFixed(4)}`)
+        .sort()
+    };
+  };
+
+  it('should dispatch to the requested algorithm', async () => {
+    const fileUpload = await createTestData();
+
+    for (const algorithm of algorithms) {
+      const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, algorithm });
+
+      expect(result.algorithm).toEqual(algorithm);
+      expect(result.status).toEqual('completed');
+
+      const itemsets = await db.select()
+        .from(frequentItemsetsTable)
+        .where(eq(frequentItemsetsTable.analysis_id, result.id))
+        .execute();
+      expect(itemsets.every(itemset => itemset.algorithm === algorithm)).toBe(true);
+    }
+
+    const summaries = await db.select().from(analysisResultsTable).execute();
+    expect(summaries.map(analysis => analysis.summary?.split(' ')[0]).sort()).toEqual(['Apriori', 'Eclat', 'FP-Growth']);
+  });
+
+  it('should produce the same itemsets and rules with every algorithm', async () => {
+    const fileUpload = await createTestData([
+      ['a', 'b', 'c'],
+      ['a', 'b'],
+      ['a', 'c', 'd'],
+      ['b', 'c', 'e'],
+      ['a', 'b', 'c', 'e'],
+      ['c', 'd', 'e'],
+      ['a', 'b', 'd', 'e'],
+      ['b', 'c']
+    ]);
+
+    const results = [];
+    for (const algorithm of algorithms) {
+      const analysis = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        algorithm,
+        min_support: 0.25,
+        min_confidence: 0.5
+      });
+      results.push(await loadResults(analysis.id));
+    }
+
+    expect(results[0].itemsets.length).toBeGreaterThan(0);
+    expect(results[0].rules.length).toBeGreaterThan(0);
+    expect(results[1]).toEqual(results[0]);
+    expect(results[2]).toEqual(results[0]);
+  });
+
+  it('should store itemsets with sorted items', async () => {
+    const fileUpload = await createTestData([
+      ['milk', 'bread'],
+      ['milk', 'bread'],
+      ['eggs']
+    ]);
+
+    for (const algorithm of algorithms) {
+      const analysis = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, algorithm });
+      const { itemsets } = await loadResults(analysis.id);
+      expect(itemsets).toContain('bread,milk:2');
+    }
+  });
+
+  it('should mark the analysis failed when the file has no transactions', async () => {
+    const fileUpload = await createTestData([]);
+
+    await expect(runAnalysis({ ...testInput, file_upload_id: fileUpload.id, algorithm: 'eclat' }))
+      .rejects.toThrow(/no transactions found/i);
+
+    const analyses = await db.select().from(analysisResultsTable).execute();
+    expect(analyses).toHaveLength(1);
+    expect(analyses[0].algorithm).toEqual('eclat');
+    expect(analyses[0].status).toEqual('failed');
+    expect(analyses[0].error_message).toEqual('No transactions found for the specified file');
+    expect(analyses[0].completed_at).toBeInstanceOf(Date);
+  });
+
+  it('should store interestingness measures with each rule', async () => {
+    const fileUpload = await createTestData();
+
+    const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id });
+
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.analysis_id, result.id))
+      .execute();
+
+    // bread and milk are each in 4 of 5 baskets and together in 3
+    const breadMilk = rules.find(rule =>
+      (rule.antecedent as string[]).join(',') === 'bread' && (rule.consequent as string[]).join(',') === 'milk'
+    );
+    const measures = breadMilk?.measures;
+    expect(measures?.leverage).toBeCloseTo(-0.04, 6);
+    expect(measures?.conviction).toBeCloseTo(0.8, 6);
+    expect(measures?.zhang).toBeCloseTo(-0.25, 6);
+    expect(measures?.jaccard).toBeCloseTo(0.6, 6);
+    expect(measures?.cosine).toBeCloseTo(0.75, 6);
+    expect(measures?.kulczynski).toBeCloseTo(0.75, 6);
+    expect(measures?.imbalance_ratio).toBeCloseTo(0, 6);
+    expect(measures?.all_confidence).toBeCloseTo(0.75, 6);
+
+  });
+
+  it('should store a null conviction for rules that always hold', async () => {
+    const fileUpload = await createTestData([['a', 'b'], ['a', 'b'], ['b']]);
+
+    const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id });
+
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.analysis_id, result.id))
+      .execute();
+    const aToB = rules.find(rule => (rule.antecedent as string[]).join(',') === 'a');
+    expect(parseFloat(aToB!.confidence)).toEqual(1);
+    expect(aToB?.measures?.conviction).toBeNull();
+  });
+
+  it('should test each rule against chance and correct across the rule set', async () => {
+    // a and b: together 3 times, alone once each, both absent 3 times
+    const fileUpload = await createTestData([
+      ['a', 'b'], ['a', 'b'], ['a', 'b'], ['a'], ['b'], ['c'], ['c'], ['c']
+    ]);
+
+    const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_support: 0.1, min_confidence: 0.5 });
+
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.analysis_id, result.id))
+      .execute();
+
+    expect(rules).toHaveLength(2);
+    rules.forEach(rule => {
+      expect(rule.significance?.chi_square).toBeCloseTo(2, 6);
+      // (C(4,3)·C(4,1) + C(4,4)·C(4,0)) / C(8,4)
+      expect(rule.significance?.p_value).toBeCloseTo(17 / 70, 5);
+      expect(rule.significance?.p_bonferroni).toBeCloseTo(34 / 70, 5);
+      expect(rule.significance?.p_benjamini_hochberg).toBeCloseTo(17 / 70, 5);
+    });
+  });
+
+  it('should give strongly associated items a small p-value', async () => {
+    const baskets = [
+      ...Array.from({ length: 10 }, () => ['a', 'b']),
+      ...Array.from({ length: 10 }, () => ['c'])
+    ];
+    const fileUpload = await createTestData(baskets);
+
+    const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_support: 0.1 });
+
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.analysis_id, result.id))
+      .execute();
+
+    // 1 / C(20, 10) for the only table with as many joint occurrences
+    const aToB = rules.find(rule => (rule.antecedent as string[]).join(',') === 'a');
+    expect(aToB?.significance?.p_value).toBeCloseTo(1 / 184756, 9);
+    expect(aToB?.significance?.chi_square).toBeCloseTo(20, 6);
+  });
+
+  it('should not find items that avoid each other significant', async () => {
+    // a and b meet once, far less often than their 11 occurrences each predict
+    const baskets = [
+      ...Array.from({ length: 10 }, () => ['a']),
+      ...Array.from({ length: 10 }, () => ['b']),
+      ['a', 'b']
+    ];
+    const fileUpload = await createTestData(baskets);
+
+    const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_support: 0.04, min_confidence: 0.05 });
+
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.analysis_id, result.id))
+      .execute();
+
+    expect(rules).toHaveLength(2);
+    rules.forEach(rule => {
+      expect(parseFloat(rule.lift)).toBeLessThan(1);
+      expect(rule.significance?.chi_square).toBeGreaterThan(10);
+      expect(rule.significance?.p_value).toBeCloseTo(1, 9);
+    });
+  });
+
+  describe('closed output mode', () => {
+    // a and b always occur together, so only {a, b} and {c} are closed
+    const baskets = [
+      ['a', 'b'],
+      ['a', 'b'],
+      ['a', 'b', 'c'],
+      ['c']
+    ];
+
+    it('should flag closed itemsets when storing all of them', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_support: 0.5 });
+
+      expect(result.output_mode).toEqual('all');
+      const itemsets = await db.select()
+        .from(frequentItemsetsTable)
+        .where(eq(frequentItemsetsTable.analysis_id, result.id))
+        .execute();
+      const flags = itemsets
+        .map(itemset => `${(itemset.itemset as string[]).join(',')}:${itemset.is_closed}:${itemset.is_maximal}`)
+        .sort();
+      expect(flags).toEqual(['a,b:true:true', 'a:false:false', 'b:false:false', 'c:true:true']);
+    });
+
+    it('should store only closed itemsets and derive rules from them', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      for (const algorithm of algorithms) {
+        const result = await runAnalysis({
+          ...testInput,
+          file_upload_id: fileUpload.id,
+          algorithm,
+          min_support: 0.5,
+          output_mode: 'closed'
+        });
+
+        expect(result.output_mode).toEqual('closed');
+        expect(result.summary).toContain('Found 2 closed frequent itemsets');
+
+        const { itemsets, rules } = await loadResults(result.id);
+        expect(itemsets).toEqual(['a,b:3', 'c:2']);
+        expect(rules).toEqual(['a=>b:1.0000', 'b=>a:1.0000']);
+      }
+    });
+
+    it('should keep the rule measures of the full result', async () => {
+      const fileUpload = await createTestData([
+        ['a', 'b', 'c'],
+        ['a', 'b'],
+        ['a', 'b', 'd'],
+        ['c', 'd'],
+        ['c']
+      ]);
+
+      const all = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_support: 0.2, min_confidence: 0.1 });
+      const closed = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_support: 0.2,
+        min_confidence: 0.1,
+        output_mode: 'closed'
+      });
+
+      const allRules = (await loadResults(all.id)).rules;
+      const closedRules = (await loadResults(closed.id)).rules;
+      expect(closedRules.length).toBeGreaterThan(0);
+      expect(closedRules.length).toBeLessThan(allRules.length);
+      // Every closed rule appears, with the same confidence, among all rules
+      closedRules.forEach(rule => expect(allRules).toContain(rule));
+    });
+  });
+
+  describe('maximal output mode', () => {
+    const baskets = [
+      ['a', 'b', 'c'],
+      ['a', 'b', 'c'],
+      ['a', 'b'],
+      ['a', 'd'],
+      ['a', 'd']
+    ];
+
+    it('should store only itemsets without a frequent superset', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      for (const algorithm of algorithms) {
+        const result = await runAnalysis({
+          ...testInput,
+          file_upload_id: fileUpload.id,
+          algorithm,
+          min_support: 0.4,
+          output_mode: 'maximal'
+        });
+
+        expect(result.output_mode).toEqual('maximal');
+        expect(result.summary).toContain('Found 2 maximal frequent itemsets');
+
+        const { itemsets } = await loadResults(result.id);
+        expect(itemsets).toEqual(['a,b,c:2', 'a,d:2']);
+      }
+    });
+
+    it('should flag maximal itemsets that are not closed', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_support: 0.4 });
+
+      const itemsets = await db.select()
+        .from(frequentItemsetsTable)
+        .where(eq(frequentItemsetsTable.analysis_id, result.id))
+        .execute();
+      const maximal = itemsets.filter(itemset => itemset.is_maximal).map(itemset => (itemset.itemset as string[]).join(','));
+      expect(maximal.sort()).toEqual(['a,b,c', 'a,d']);
+      // {a, b} is closed (support 3 against 2 for {a, b, c}) but not maximal
+      const pair = itemsets.find(itemset => (itemset.itemset as string[]).join(',') === 'a,b');
+      expect(pair?.is_closed).toBe(true);
+      expect(pair?.is_maximal).toBe(false);
+    });
+
+    it('should derive rules from the maximal itemsets', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_support: 0.4,
+        min_confidence: 0.9,
+        output_mode: 'maximal'
+      });
+
+      const { rules } = await loadResults(result.id);
+      // c => a, b holds in every basket with c; a => d only in 2 of 5
+      expect(rules).toContain('c=>a,b:1.0000');
+      expect(rules.every(rule => !rule.startsWith('a=>d'))).toBe(true);
+    });
+  });
+
+  describe('rule pruning', () => {
+    // Whenever c or d occurs, so do the other two of a, c and d
+    const baskets = [
+      ...Array.from({ length: 4 }, () => ['a', 'c', 'd']),
+      ['a'],
+      ...Array.from({ length: 5 }, () => ['b'])
+    ];
+    const pruningInput = { ...testInput, min_support: 0.1, min_confidence: 0.5 };
+
+    it('should keep every rule without pruning', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      const result = await runAnalysis({ ...pruningInput, file_upload_id: fileUpload.id });
+
+      const { rules } = await loadResults(result.id);
+      expect(rules).toHaveLength(12);
+      expect(result.rule_pruning).toBeNull();
+      expect(result.summary).not.toContain('Pruned');
+    });
+
+    it('should remove rules a more general rule matches in confidence', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      const result = await runAnalysis({
+        ...pruningInput,
+        file_upload_id: fileUpload.id,
+        rule_pruning: { redundant: true, non_productive: false }
+      });
+
+      const { rules } = await loadResults(result.id);
+      expect(rules).toEqual(['a=>c,d:0.8000', 'c=>a,d:1.0000', 'd=>a,c:1.0000']);
+      expect(result.rule_pruning).toEqual({ redundant: true, non_productive: false });
+      expect(result.summary).toContain('Pruned 9 redundant or non-productive rules');
+    });
+
+    it('should remove rules a smaller antecedent predicts as well', async () => {
+      const fileUpload = await createTestData(baskets);
+
+      const result = await runAnalysis({
+        ...pruningInput,
+        file_upload_id: fileUpload.id,
+        rule_pruning: { redundant: false, non_productive: true }
+      });
+
+      const { rules } = await loadResults(result.id);
+      expect(rules).toHaveLength(9);
+      // c => d already holds every time, so adding a to the antecedent adds nothing
+      expect(rules).not.toContain('a,c=>d:1.0000');
+      expect(rules).not.toContain('a,d=>c:1.0000');
+      expect(rules).not.toContain('c,d=>a:1.0000');
+    });
+
+    it('should treat rules no better than the consequent alone as non-productive', async () => {
+      const fileUpload = await createTestData([
+        ...Array.from({ length: 3 }, () => ['a', 'c']),
+        ['a'],
+        ...Array.from({ length: 6 }, () => ['c'])
+      ]);
+
+      const redundantOnly = await runAnalysis({
+        ...pruningInput,
+        file_upload_id: fileUpload.id,
+        rule_pruning: { redundant: true, non_productive: false }
+      });
+      const nonProductive = await runAnalysis({
+        ...pruningInput,
+        file_upload_id: fileUpload.id,
+        rule_pruning: { redundant: false, non_productive: true }
+      });
+
+      // a => c holds 75% of the time, but c is in 90% of baskets
+      expect((await loadResults(redundantOnly.id)).rules).toEqual(['a=>c:0.7500']);
+      expect((await loadResults(nonProductive.id)).rules).toEqual([]);
+    });
+  });
+
+  describe('item constraints', () => {
+    const includes = (rule: string, item: string) => rule.split(':')[0].split(/=>|,/).includes(item);
+
+    it('should leave excluded items out of itemsets and rules', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        item_constraints: { exclude: ['butter'] }
+      });
+
+      expect(result.item_constraints).toEqual({ exclude: ['butter'] });
+      expect(result.summary).toContain('Item constraints: excluding {butter}');
+      const { itemsets, rules } = await loadResults(result.id);
+      expect(itemsets).toEqual(['bread,milk:3', 'bread:4', 'milk:4']);
+      expect(rules).toEqual(['bread=>milk:0.7500', 'milk=>bread:0.7500']);
+    });
+
+    it('should mine only itemsets with the required items and keep their rules intact', async () => {
+      const fileUpload = await createTestData();
+
+      const unconstrained = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_confidence: 0.1 });
+      const expectedRules = (await loadResults(unconstrained.id)).rules.filter(rule => includes(rule, 'milk'));
+
+      for (const algorithm of algorithms) {
+        const result = await runAnalysis({
+          ...testInput,
+          file_upload_id: fileUpload.id,
+          algorithm,
+          min_confidence: 0.1,
+          item_constraints: { must_include: ['milk'] }
+        });
+
+        const { itemsets, rules } = await loadResults(result.id);
+        expect(itemsets).toEqual(['bread,butter,milk:2', 'bread,milk:3', 'butter,milk:3', 'milk:4']);
+        expect(rules).toEqual(expectedRules);
+      }
+    });
+
+    it('should restrict rule consequents to the allowed items', async () => {
+      const fileUpload = await createTestData();
+
+      const unconstrained = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_confidence: 0.1 });
+      const constrained = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_confidence: 0.1,
+        item_constraints: { consequent_items: ['milk'] }
+      });
+
+      const expectedRules = (await loadResults(unconstrained.id)).rules
+        .filter(rule => rule.split(':')[0].split('=>')[1] === 'milk');
+      const { rules } = await loadResults(constrained.id);
+      expect(rules).toEqual(expectedRules);
+      expect(rules).toHaveLength(3);
+    });
+
+    it('should drop items neither side of a rule may use', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        item_constraints: { antecedent_items: ['bread'], consequent_items: ['butter'] }
+      });
+
+      const { itemsets, rules } = await loadResults(result.id);
+      expect(itemsets).toEqual(['bread,butter:3', 'bread:4', 'butter:4']);
+      expect(rules).toEqual(['bread=>butter:0.7500']);
+    });
+
+    it('should find nothing when the required items are too rare', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        item_constraints: { must_include: ['cheese'] }
+      });
+
+      expect(result.status).toEqual('completed');
+      const { itemsets, rules } = await loadResults(result.id);
+      expect(itemsets).toEqual([]);
+      expect(rules).toEqual([]);
+    });
+  });
+
+  describe('size limits', () => {
+    it('should stop growing itemsets at the maximum length', async () => {
+      const fileUpload = await createTestData();
+
+      for (const algorithm of algorithms) {
+        const result = await runAnalysis({
+          ...testInput,
+          file_upload_id: fileUpload.id,
+          algorithm,
+          max_itemset_length: 2
+        });
+
+        expect(result.max_itemset_length).toEqual(2);
+        expect(result.summary).toContain('Limits: itemset length ≤ 2');
+        const { itemsets } = await loadResults(result.id);
+        expect(itemsets).toEqual(['bread,butter:3', 'bread,milk:3', 'bread:4', 'butter,milk:3', 'butter:4', 'milk:4']);
+      }
+    });
+
+    it('should only generate rules within the antecedent and consequent sizes', async () => {
+      const fileUpload = await createTestData();
+
+      const unlimited = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id, min_confidence: 0.1 });
+      const limited = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_confidence: 0.1,
+        max_antecedent_size: 2,
+        max_consequent_size: 1
+      });
+
+      expect(limited.max_antecedent_size).toEqual(2);
+      expect(limited.max_consequent_size).toEqual(1);
+      expect(limited.max_itemset_length).toBeNull();
+
+      const expectedRules = (await loadResults(unlimited.id)).rules
+        .filter(rule => !rule.split(':')[0].split('=>')[1].includes(','));
+      const { rules } = await loadResults(limited.id);
+      expect(rules).toEqual(expectedRules);
+      // Three pairs split both ways, plus the triple with each item as consequent
+      expect(rules).toHaveLength(9);
+    });
+
+    it('should count required items against the length limit', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        max_itemset_length: 2,
+        item_constraints: { must_include: ['milk'] }
+      });
+
+      const { itemsets } = await loadResults(result.id);
+      expect(itemsets).toEqual(['bread,milk:3', 'butter,milk:3', 'milk:4']);
+    });
+  });
+
+  describe('top-k mode', () => {
+    it('should find the k most frequent itemsets', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_support: 0,
+        top_k: { k: 3, rank_by: 'support' }
+      });
+
+      expect(result.top_k).toEqual({ k: 3, rank_by: 'support' });
+      expect(result.effective_min_support).toEqual(0.8);
+      expect(result.summary).toContain('Top 3 by support: effective Min Support = 80.0%');
+
+      const { itemsets } = await loadResults(result.id);
+      expect(itemsets).toEqual(['bread:4', 'butter:4', 'milk:4']);
+    });
+
+    it('should keep itemsets tied with the k-th', async () => {
+      const fileUpload = await createTestData();
+
+      for (const algorithm of algorithms) {
+        const result = await runAnalysis({
+          ...testInput,
+          file_upload_id: fileUpload.id,
+          algorithm,
+          min_support: 0,
+          top_k: { k: 4, rank_by: 'support' }
+        });
+
+        expect(result.effective_min_support).toEqual(0.6);
+        const { itemsets } = await loadResults(result.id);
+        expect(itemsets).toEqual(['bread,butter:3', 'bread,milk:3', 'bread:4', 'butter,milk:3', 'butter:4', 'milk:4']);
+      }
+    });
+
+    it('should lower the threshold until k rules are found', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_support: 0.4,
+        min_confidence: 0.5,
+        top_k: { k: 2, rank_by: 'confidence' }
+      });
+
+      // No rules reach 80% support, so the search halves to the floor of 2 of 5
+      expect(result.effective_min_support).toEqual(0.4);
+      const { rules } = await loadResults(result.id);
+      expect(rules).toHaveLength(2);
+      rules.forEach(rule => expect(rule).toEndWith(':0.7500'));
+    });
+
+    it('should find the best rules even when they have little support', async () => {
+      // x and y always occur together but in only 2 of 20 baskets
+      const fileUpload = await createTestData([
+        ...Array.from({ length: 12 }, () => ['bread', 'milk']),
+        ...Array.from({ length: 6 }, () => ['bread']),
+        ['x', 'y'],
+        ['x', 'y']
+      ]);
+
+      const byLift = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_support: 0,
+        min_confidence: 0.5,
+        top_k: { k: 2, rank_by: 'lift' }
+      });
+      const byConfidence = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_support: 0,
+        min_confidence: 0.5,
+        top_k: { k: 2, rank_by: 'confidence' }
+      });
+
+      expect((await loadResults(byLift.id)).rules).toEqual(['x=>y:1.0000', 'y=>x:1.0000']);
+      const confidentRules = (await loadResults(byConfidence.id)).rules;
+      expect(confidentRules).toHaveLength(2);
+      confidentRules.forEach(rule => expect(rule).toEndWith(':1.0000'));
+    });
+
+    it('should not search below the minimum support', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({
+        ...testInput,
+        file_upload_id: fileUpload.id,
+        min_support: 0.4,
+        top_k: { k: 100, rank_by: 'support' }
+      });
+
+      expect(result.effective_min_support).toEqual(0.4);
+      const { itemsets } = await loadResults(result.id);
+      expect(itemsets).toHaveLength(7);
+    });
+
+    it('should record the effective threshold of a fixed-threshold run', async () => {
+      const fileUpload = await createTestData();
+
+      const result = await runAnalysis({ ...testInput, file_upload_id: fileUpload.id });
+
+      expect(result.top_k).toBeNull();
+      expect(result.effective_min_support).toEqual(0.4);
+    });
+  });
+});
@@ -67,7 +67,7 @@ describe('runAprioriAnalysis', () => {
     expect(result.min_confidence).toEqual(0.6);
     expect(result.status).toEqual('completed');
     expect(result.summary).toBeDefined();
-    expect(result.summary).toContain('Apriori Analysis completed successfully');
+    expect(result.summary).toContain('Apriori analysis completed successfully');
     expect(result.completed_at).toBeInstanceOf(Date);
     expect(result.error_message).toBeNull();
   });
@@ -287,7 +287,7 @@ describe('runAprioriAnalysis', () => {
     });
 
     expect(result.summary).toBeDefined();
-    expect(result.summary).toContain('Apriori Analysis completed successfully');
+    expect(result.summary).toContain('Apriori analysis completed successfully');
     expect(result.summary).toContain('Parameters: Min Support = 40.0%, Min Confidence = 60.0%');
     expect(result.summary).toContain('frequent itemsets');
     expect(result.summary).toContain('association rules');
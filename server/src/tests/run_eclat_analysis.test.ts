@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable, transactionsTable, analysisResultsTable, frequentItemsetsTable, associationRulesTable } from '../db/schema';
+import { type CreateAnalysisInput } from '../schema';
+import { runEclatAnalysis } from '../handlers/run_eclat_analysis';
+import { runFpGrowthAnalysis } from '../handlers/run_fp_growth_analysis';
+import { eq } from 'drizzle-orm';
+
+describe('runEclatAnalysis', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (baskets: string[][] = [
+    ['bread', 'milk'],
+    ['bread', 'butter', 'milk'],
+    ['bread', 'butter'],
+    ['milk', 'butter'],
+    ['bread', 'milk', 'butter', 'cheese']
+  ]) => {
+    const fileResults = await db.insert(fileUploadsTable)
+      .values({
+        filename: 'test-transactions.csv',
+        original_name: 'transactions.csv',
+        file_size: 1024,
+        mime_type: 'text/csv',
+        file_path: '/uploads/test.csv',
+        status: 'completed'
+      })
+      .returning()
+      .execute();
+
+    const fileUpload = fileResults[0];
+
+    if (baskets.length > 0) {
+      await db.insert(transactionsTable)
+        .values(baskets.map((items, index) => ({
+          file_upload_id: fileUpload.id,
+          transaction_id: `T${index + 1}`,
+          items
+        })))
+        .execute();
+    }
+
+    return fileUpload;
+  };
+
+  const testInput: CreateAnalysisInput = {
+    file_upload_id: 1,
+    algorithm: 'eclat',
+    min_support: 0.4, // 40% = 2 out of 5 transactions
+    min_confidence: 0.6
+  };
+
+  const loadItemsets = async (analysisId: number) => {
+    const itemsets = await db.select()
+      .from(frequentItemsetsTable)
+      .where(eq(frequentItemsetsTable.analysis_id, analysisId))
+      .execute();
+
+    return itemsets
+      .map(itemset => `${[...(itemset.itemset as string[])].sort().join(',')}:${itemset.frequency}`)
+      .sort();
+  };
+
+  it('should create and complete an Eclat analysis', async () => {
+    const fileUpload = await createTestData();
+
+    const result = await runEclatAnalysis({ ...testInput, file_upload_id: fileUpload.id });
+
+    expect(result.algorithm).toEqual('eclat');
+    expect(result.status).toEqual('completed');
+    expect(result.min_support).toEqual(0.4);
+    expect(result.summary).toContain('Eclat analysis completed successfully');
+    expect(result.summary).toContain('Found 7 frequent itemsets');
+    expect(result.completed_at).toBeInstanceOf(Date);
+  });
+
+  it('should find every frequent itemset with its support count', async () => {
+    const fileUpload = await createTestData();
+
+    const result = await runEclatAnalysis({ ...testInput, file_upload_id: fileUpload.id });
+
+    expect(await loadItemsets(result.id)).toEqual([
+      'bread,butter,milk:2',
+      'bread,butter:3',
+      'bread,milk:3',
+      'bread:4',
+      'butter,milk:3',
+      'butter:4',
+      'milk:4'
+    ]);
+
+    const itemsets = await db.select()
+      .from(frequentItemsetsTable)
+      .where(eq(frequentItemsetsTable.analysis_id, result.id))
+      .execute();
+    const triple = itemsets.find(itemset => (itemset.itemset as string[]).length === 3)!;
+    expect(parseFloat(triple.support)).toEqual(0.4);
+    expect(triple.algorithm).toEqual('eclat');
+  });
+
+  it('should save association rules with confidence and lift', async () => {
+    const fileUpload = await createTestData();
+
+    const result = await runEclatAnalysis({ ...testInput, file_upload_id: fileUpload.id });
+
+    const rules = await db.select()
+      .from(associationRulesTable)
+      .where(eq(associationRulesTable.analysis_id, result.id))
+      .execute();
+
+    const breadToMilk = rules.find(rule =>
+      (rule.antecedent as string[]).join(',') === 'bread' && (rule.consequent as string[]).join(',') === 'milk'
+    );
+    expect(breadToMilk).toBeDefined();
+    expect(parseFloat(breadToMilk!.support)).toEqual(0.6);
+    expect(parseFloat(breadToMilk!.confidence)).toEqual(0.75);
+    expect(parseFloat(breadToMilk!.lift)).toBeCloseTo(0.9375, 4);
+    rules.forEach(rule => expect(parseFloat(rule.confidence)).toBeGreaterThanOrEqual(0.6));
+  });
+
+  it('should agree with FP-Growth on a denser dataset', async () => {
+    const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const baskets = Array.from({ length: 40 }, (_, index) =>
+      items.filter((_, position) => (index * 7 + position * 3) % 5 !== 0 || position === index % 6)
+    );
+    const fileUpload = await createTestData(baskets);
+    const input = { ...testInput, file_upload_id: fileUpload.id, min_support: 0.3 };
+
+    const eclatResult = await runEclatAnalysis(input);
+    const fpGrowthResult = await runFpGrowthAnalysis({ ...input, algorithm: 'fp-growth' });
+
+    const eclatItemsets = await loadItemsets(eclatResult.id);
+    expect(eclatItemsets.length).toBeGreaterThan(6);
+    expect(eclatItemsets).toEqual(await loadItemsets(fpGrowthResult.id));
+  });
+
+  it('should mark the analysis as failed without transactions', async () => {
+    const fileUpload = await createTestData([]);
+
+    await expect(runEclatAnalysis({ ...testInput, file_upload_id: fileUpload.id }))
+      .rejects.toThrow(/No transactions found/);
+
+    const analyses = await db.select().from(analysisResultsTable).execute();
+    expect(analyses).toHaveLength(1);
+    expect(analyses[0].status).toEqual('failed');
+    expect(analyses[0].algorithm).toEqual('eclat');
+  });
+});
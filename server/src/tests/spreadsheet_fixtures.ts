@@ -0,0 +1,262 @@
+import { crc32, deflateRawSync } from 'zlib';
+
+// Builders for small but genuine .xlsx and .xls files used by the tests
+
+export type FixtureCell = string | number | Date | null;
+
+export interface FixtureSheet {
+  name: string;
+  rows: FixtureCell[][];
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Excel 1900 date system serial for a UTC date
+const toExcelSerial = (date: Date) => (date.getTime() - Date.UTC(1899, 11, 30)) / 86400000;
+
+export function buildZip(files: Record<string, string | Buffer>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name, 'utf-8');
+    const checksum = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    localParts.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// Strings alternate between the shared string table and inline strings so
+// both code paths are exercised; dates use a built-in date number format
+export function buildXlsx(sheets: FixtureSheet[]): Buffer {
+  const sharedStrings: string[] = [];
+  const files: Record<string, string> = {};
+
+  const sheetEntries = sheets.map((sheet, sheetIndex) => {
+    const rowsXml = sheet.rows.map((row, rowIndex) => {
+      const cellsXml = row.map((cell, colIndex) => {
+        const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+        if (cell === null) return '';
+        if (cell instanceof Date) return `<c r="${ref}" s="1"><v>${toExcelSerial(cell)}</v></c>`;
+        if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+        if ((rowIndex + colIndex) % 2 === 0) {
+          sharedStrings.push(cell);
+          return `<c r="${ref}" t="s"><v>${sharedStrings.length - 1}</v></c>`;
+        }
+        return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(cell)}</t></is></c>`;
+      }).join('');
+      return `<row r="${rowIndex + 1}">${cellsXml}</row>`;
+    }).join('');
+
+    files[`xl/worksheets/sheet${sheetIndex + 1}.xml`] =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowsXml}</sheetData></worksheet>`;
+
+    return {
+      sheet: `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheetIndex + 1}" r:id="rId${sheetIndex + 1}"/>`,
+      relationship: `<Relationship Id="rId${sheetIndex + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheetIndex + 1}.xml"/>`
+    };
+  });
+
+  const relBase = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  files['[Content_Types].xml'] = `<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"></Types>`;
+  files['_rels/.rels'] =
+    `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${relBase}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+  files['xl/workbook.xml'] =
+    `<?xml version="1.0" encoding="UTF-8"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relBase}">` +
+    `<sheets>${sheetEntries.map(entry => entry.sheet).join('')}</sheets></workbook>`;
+  files['xl/_rels/workbook.xml.rels'] =
+    `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    sheetEntries.map(entry => entry.relationship).join('') +
+    `<Relationship Id="rIdStyles" Type="${relBase}/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rIdStrings" Type="${relBase}/sharedStrings" Target="sharedStrings.xml"/></Relationships>`;
+  files['xl/styles.xml'] =
+    `<?xml version="1.0" encoding="UTF-8"?><styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14" applyNumberFormat="1"/></cellXfs></styleSheet>`;
+  files['xl/sharedStrings.xml'] =
+    `<?xml version="1.0" encoding="UTF-8"?><sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    sharedStrings.map(text => `<si><t xml:space="preserve">${escapeXml(text)}</t></si>`).join('') + `</sst>`;
+
+  return buildZip(files);
+}
+
+const biffRecord = (type: number, data: Buffer): Buffer => {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+};
+
+const biffString = (text: string, lengthBytes: 1 | 2): Buffer => {
+  const length = Buffer.alloc(lengthBytes);
+  if (lengthBytes === 1) length.writeUInt8(text.length, 0);
+  else length.writeUInt16LE(text.length, 0);
+  // Always stored uncompressed (UTF-16LE) to cover non-Latin text
+  return Buffer.concat([length, Buffer.from([0x01]), Buffer.from(text, 'utf16le')]);
+};
+
+const bof = (substreamType: number) => {
+  const data = Buffer.alloc(16);
+  data.writeUInt16LE(0x0600, 0);
+  data.writeUInt16LE(substreamType, 2);
+  return biffRecord(0x0809, data);
+};
+
+const cellHeader = (row: number, col: number, xf: number) => {
+  const data = Buffer.alloc(6);
+  data.writeUInt16LE(row, 0);
+  data.writeUInt16LE(col, 2);
+  data.writeUInt16LE(xf, 4);
+  return data;
+};
+
+// BIFF8 workbook inside a compound file. Strings go through the shared
+// string table, whole numbers are written as RK records and dates as
+// NUMBER records with a date formatted XF.
+export function buildXls(sheets: FixtureSheet[]): Buffer {
+  const sharedStrings: string[] = [];
+  const sheetStreams = sheets.map(sheet => {
+    const cells: Buffer[] = [];
+    sheet.rows.forEach((row, rowIndex) => {
+      row.forEach((cell, colIndex) => {
+        if (cell === null) return;
+        if (typeof cell === 'string') {
+          sharedStrings.push(cell);
+          const data = Buffer.alloc(4);
+          data.writeUInt32LE(sharedStrings.length - 1, 0);
+          cells.push(biffRecord(0x00fd, Buffer.concat([cellHeader(rowIndex, colIndex, 0), data])));
+        } else if (typeof cell === 'number' && Number.isInteger(cell)) {
+          const data = Buffer.alloc(4);
+          data.writeUInt32LE(((cell << 2) | 0x02) >>> 0, 0);
+          cells.push(biffRecord(0x027e, Buffer.concat([cellHeader(rowIndex, colIndex, 0), data])));
+        } else {
+          const data = Buffer.alloc(8);
+          const isDate = cell instanceof Date;
+          data.writeDoubleLE(isDate ? toExcelSerial(cell) : cell, 0);
+          cells.push(biffRecord(0x0203, Buffer.concat([cellHeader(rowIndex, colIndex, isDate ? 1 : 0), data])));
+        }
+      });
+    });
+    return Buffer.concat([bof(0x0010), ...cells, biffRecord(0x000a, Buffer.alloc(0))]);
+  });
+
+  const sstHeader = Buffer.alloc(8);
+  sstHeader.writeUInt32LE(sharedStrings.length, 0);
+  sstHeader.writeUInt32LE(sharedStrings.length, 4);
+  const sst = biffRecord(0x00fc, Buffer.concat([sstHeader, ...sharedStrings.map(text => biffString(text, 2))]));
+
+  const xf = (formatId: number) => {
+    const data = Buffer.alloc(20);
+    data.writeUInt16LE(formatId, 2);
+    return biffRecord(0x00e0, data);
+  };
+
+  const boundSheetSize = (name: string) => 4 + 6 + biffString(name, 1).length;
+  const globalsSize = bof(0x0005).length + xf(0).length * 2 + sst.length +
+    sheets.reduce((sum, sheet) => sum + boundSheetSize(sheet.name), 0) + 4;
+
+  let sheetOffset = globalsSize;
+  const boundSheets = sheets.map((sheet, index) => {
+    const data = Buffer.alloc(6);
+    data.writeUInt32LE(sheetOffset, 0);
+    sheetOffset += sheetStreams[index].length;
+    return biffRecord(0x0085, Buffer.concat([data, biffString(sheet.name, 1)]));
+  });
+
+  let stream = Buffer.concat([
+    bof(0x0005), xf(0), xf(14), sst, ...boundSheets, biffRecord(0x000a, Buffer.alloc(0)), ...sheetStreams
+  ]);
+  // Keep the stream above the 4096 byte mini stream cutoff
+  if (stream.length < 4096) {
+    stream = Buffer.concat([stream, Buffer.alloc(4096 - stream.length)]);
+  }
+
+  const sectorSize = 512;
+  const streamSectors = Math.ceil(stream.length / sectorSize);
+  const paddedStream = Buffer.concat([stream, Buffer.alloc(streamSectors * sectorSize - stream.length)]);
+
+  // Sector 0: FAT, sector 1: directory, sectors 2..: workbook stream
+  const fat = Buffer.alloc(sectorSize, 0xff);
+  fat.writeUInt32LE(0xfffffffd, 0);
+  fat.writeUInt32LE(0xfffffffe, 4);
+  for (let i = 0; i < streamSectors; i++) {
+    fat.writeUInt32LE(i === streamSectors - 1 ? 0xfffffffe : 3 + i, (2 + i) * 4);
+  }
+
+  const directory = Buffer.alloc(sectorSize);
+  const writeEntry = (index: number, name: string, type: number, start: number, size: number) => {
+    const offset = index * 128;
+    directory.write(name, offset, 'utf16le');
+    directory.writeUInt16LE((name.length + 1) * 2, offset + 0x40);
+    directory[offset + 0x42] = type;
+    directory.writeUInt32LE(0xffffffff, offset + 0x44);
+    directory.writeUInt32LE(0xffffffff, offset + 0x48);
+    directory.writeUInt32LE(index === 0 ? 1 : 0xffffffff, offset + 0x4c);
+    directory.writeUInt32LE(start, offset + 0x74);
+    directory.writeUInt32LE(size, offset + 0x78);
+  };
+  writeEntry(0, 'Root Entry', 5, 0xfffffffe, 0);
+  writeEntry(1, 'Workbook', 2, 2, stream.length);
+
+  const header = Buffer.alloc(sectorSize);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header, 0);
+  header.writeUInt16LE(0x003e, 0x18);
+  header.writeUInt16LE(0x0003, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(1, 0x2c);
+  header.writeUInt32LE(1, 0x30);
+  header.writeUInt32LE(4096, 0x38);
+  header.writeUInt32LE(0xfffffffe, 0x3c);
+  header.writeUInt32LE(0xfffffffe, 0x44);
+  header.fill(0xff, 0x4c);
+  header.writeUInt32LE(0, 0x4c);
+
+  return Buffer.concat([header, fat, directory, paddedStream]);
+}
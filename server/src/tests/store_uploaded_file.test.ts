@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fileUploadsTable } from '../db/schema';
+import { type StoreUploadedFileInput } from '../schema';
+import { storeUploadedFile } from '../handlers/store_uploaded_file';
+import { eq } from 'drizzle-orm';
+import { readFile, readdir, rm } from 'fs/promises';
+import { Readable } from 'stream';
+
+const testUploadDir = '/tmp/test_store_uploads';
+
+// Test input
+const testInput: StoreUploadedFileInput = {
+  original_name: 'weekly export.xlsx',
+  mime_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+describe('storeUploadedFile', () => {
+  beforeEach(async () => {
+    await createDB();
+    await rm(testUploadDir, { recursive: true, force: true });
+    process.env['UPLOAD_DIR'] = testUploadDir;
+    delete process.env['MAX_UPLOAD_BYTES'];
+  });
+  afterEach(async () => {
+    await resetDB();
+    delete process.env['UPLOAD_DIR'];
+    delete process.env['MAX_UPLOAD_BYTES'];
+  });
+
+  it('should write the uploaded bytes to the upload directory', async () => {
+    const content = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0xff, 0x10, 0x20]);
+
+    const result = await storeUploadedFile(testInput, Readable.from([content]));
+
+    expect(result.file_path.startsWith(testUploadDir)).toBe(true);
+    expect(result.filename).toMatch(/weekly_export\.xlsx$/);
+    expect(await readFile(result.file_path)).toEqual(content);
+  });
+
+  it('should record the real path, size and mime type', async () => {
+    const content = Buffer.alloc(3000, 7);
+
+    // Stream in several chunks like a network request would
+    const result = await storeUploadedFile(testInput, Readable.from([
+      content.subarray(0, 1000),
+      content.subarray(1000, 2500),
+      content.subarray(2500)
+    ]));
+
+    const fileUploads = await db.select()
+      .from(fileUploadsTable)
+      .where(eq(fileUploadsTable.id, result.id))
+      .execute();
+
+    expect(fileUploads).toHaveLength(1);
+    expect(fileUploads[0].original_name).toEqual('weekly export.xlsx');
+    expect(fileUploads[0].file_size).toEqual(3000);
+    expect(fileUploads[0].mime_type).toEqual(testInput.mime_type);
+    expect(fileUploads[0].file_path).toEqual(result.file_path);
+    expect(fileUploads[0].status).toEqual('pending');
+  });
+
+  it('should strip directory components from the original name', async () => {
+    const result = await storeUploadedFile(
+      { ...testInput, original_name: '../../etc/passwd' },
+      Readable.from([Buffer.from('data')])
+    );
+
+    expect(result.file_path.startsWith(testUploadDir)).toBe(true);
+    expect(result.filename).toMatch(/_passwd$/);
+  });
+
+  it('should reject files above the size limit and remove the partial file', async () => {
+    process.env['MAX_UPLOAD_BYTES'] = '1024';
+
+    await expect(storeUploadedFile(testInput, Readable.from([Buffer.alloc(2048)])))
+      .rejects.toThrow(/maximum upload size/i);
+
+    expect(await readdir(testUploadDir)).toHaveLength(0);
+    const fileUploads = await db.select().from(fileUploadsTable).execute();
+    expect(fileUploads).toHaveLength(0);
+  });
+
+  it('should reject empty uploads', async () => {
+    await expect(storeUploadedFile(testInput, Readable.from([])))
+      .rejects.toThrow(/empty/i);
+
+    expect(await readdir(testUploadDir)).toHaveLength(0);
+  });
+});